@@ -0,0 +1,74 @@
+import type { Extent } from "./types";
+
+// First-fit allocator over block extents. The free list is kept sorted by
+// startBlock with adjacent extents coalesced.
+export class ExtentAllocator {
+    private free: Extent[] = [];
+
+    constructor(free: Extent[] = []) {
+        for (const e of free) this.release(e);
+    }
+
+    // Everything in `region` that no `used` extent covers
+    static fromUsed(region: Extent, used: Extent[]) {
+        const a = new ExtentAllocator([region]);
+        for (const e of used) a.take(e);
+        return a;
+    }
+
+    get extents(): Extent[] {
+        return this.free.map((e) => ({ ...e }));
+    }
+
+    get freeBlocks() {
+        return this.free.reduce((s, e) => s + e.blocks, 0);
+    }
+
+    alloc(blocks: number): Extent | null {
+        for (let i = 0; i < this.free.length; i++) {
+            const f = this.free[i]!;
+            if (f.blocks < blocks) continue;
+            const out = { startBlock: f.startBlock, blocks };
+            if (f.blocks === blocks) this.free.splice(i, 1);
+            else this.free[i] = { startBlock: f.startBlock + blocks, blocks: f.blocks - blocks };
+            return out;
+        }
+        return null;
+    }
+
+    release(e: Extent) {
+        if (e.blocks === 0) return;
+        let i = 0;
+        while (i < this.free.length && this.free[i]!.startBlock < e.startBlock) i++;
+        this.free.splice(i, 0, { ...e });
+
+        // coalesce with the right neighbour, then the left
+        const cur = this.free[i]!;
+        const right = this.free[i + 1];
+        if (right && cur.startBlock + cur.blocks >= right.startBlock) {
+            cur.blocks = Math.max(cur.blocks, right.startBlock + right.blocks - cur.startBlock);
+            this.free.splice(i + 1, 1);
+        }
+        const left = this.free[i - 1];
+        if (left && left.startBlock + left.blocks >= cur.startBlock) {
+            left.blocks = Math.max(left.blocks, cur.startBlock + cur.blocks - left.startBlock);
+            this.free.splice(i, 1);
+        }
+    }
+
+    // Remove `e` from the free list wherever they overlap
+    take(e: Extent) {
+        const end = e.startBlock + e.blocks;
+        const out: Extent[] = [];
+        for (const f of this.free) {
+            const fEnd = f.startBlock + f.blocks;
+            if (fEnd <= e.startBlock || f.startBlock >= end) {
+                out.push(f);
+                continue;
+            }
+            if (f.startBlock < e.startBlock) out.push({ startBlock: f.startBlock, blocks: e.startBlock - f.startBlock });
+            if (fEnd > end) out.push({ startBlock: end, blocks: fEnd - end });
+        }
+        this.free = out;
+    }
+}
@@ -0,0 +1,49 @@
+import { BLOOM_MAX_PROBES } from "./constants";
+import { crc32c } from "./utils";
+
+// Per-table Bloom filter over whole key bytes, built from the keys' 32-bit hashes with
+// double hashing (probe i tests bit h + i * delta).
+//
+// Layout: [bit array][k u8]
+export function bloomHash(key: Uint8Array): number {
+    return crc32c(key);
+}
+
+export function buildBloom(hashes: number[], bitsPerKey: number): Uint8Array {
+    // k = ln2 * bits/key minimizes the false positive rate
+    const k = Math.min(BLOOM_MAX_PROBES, Math.max(1, Math.round(bitsPerKey * 0.69)));
+    const bits = Math.max(64, hashes.length * bitsPerKey);
+    const bytes = Math.ceil(bits / 8);
+    const out = new Uint8Array(bytes + 1);
+    const nbits = bytes * 8;
+
+    for (const hash of hashes) {
+        let h = hash >>> 0;
+        const delta = ((h >>> 17) | (h << 15)) >>> 0;
+        for (let i = 0; i < k; i++) {
+            const bit = h % nbits;
+            out[bit >>> 3] = out[bit >>> 3]! | (1 << (bit & 7));
+            h = (h + delta) >>> 0;
+        }
+    }
+    out[bytes] = k;
+    return out;
+}
+
+// false means the key is definitely not in the table
+export function bloomMayContain(filter: Uint8Array, key: Uint8Array): boolean {
+    if (filter.length < 2) return true;
+    const bytes = filter.length - 1;
+    const k = filter[bytes]!;
+    if (k === 0 || k > BLOOM_MAX_PROBES) return true; // unknown encoding; don't risk a false negative
+    const nbits = bytes * 8;
+
+    let h = bloomHash(key);
+    const delta = ((h >>> 17) | (h << 15)) >>> 0;
+    for (let i = 0; i < k; i++) {
+        const bit = h % nbits;
+        if ((filter[bit >>> 3]! & (1 << (bit & 7))) === 0) return false;
+        h = (h + delta) >>> 0;
+    }
+    return true;
+}
@@ -0,0 +1,58 @@
+import type { EventRing, Operation } from "./event-ring";
+import type { WriteBatch } from "./write-batch";
+import type { ScanOptions } from "./types";
+
+// `sync` overrides the ring's durability mode for the batch the write lands in
+export type WriteOptions = { sync?: boolean };
+
+// Promise front end to the EventRing. Writes resolve with their LSN once they are logged
+// (and fsynced, under the ring's durability mode or `sync: true`) and applied to the
+// memtable; compare it with durableLSN to know whether a write survives a crash. They
+// reject with the append's error (a DatabaseError such as WAL_FULL) when it fails, and with
+// RING_RESULT.HALTED when the ring stops before committing them.
+// Reads skip the write queue entirely.
+export class Client {
+    constructor(private ring: EventRing) { }
+
+    private submit(op: Pick<Operation, "op" | "key" | "value">, { sync }: WriteOptions) {
+        return new Promise<bigint>((resolve, reject) => {
+            const queued: Operation = { ...op, sync, ts: 0n, next: null, onComplete: () => resolve(queued.lsn ?? 0n), onError: reject };
+            this.ring.dispatch(queued);
+        });
+    }
+
+    put(key: string, value: string, opts: WriteOptions = {}): Promise<bigint> {
+        return this.submit({ op: "set", key, value }, opts);
+    }
+
+    delete(key: string, opts: WriteOptions = {}): Promise<bigint> {
+        return this.submit({ op: "del", key }, opts);
+    }
+
+    get(key: string): Promise<string | undefined> {
+        return this.ring.get(key);
+    }
+
+    scan(opts: ScanOptions = {}) {
+        return this.ring.scan(opts);
+    }
+
+    // All of the batch or none of it; resolves with the LSN of its last op
+    write(batch: WriteBatch, { sync }: WriteOptions = {}): Promise<bigint> {
+        return new Promise((resolve, reject) => this.ring.dispatchBatch(batch, { onComplete: resolve, onError: reject, sync }));
+    }
+
+    // Memory held by unflushed writes, against the memtable budget
+    memtableStats() {
+        return this.ring.memtableStats();
+    }
+
+    get durableLSN() {
+        return this.ring.durableLSN;
+    }
+
+    // Fsync everything written so far, whatever the durability mode
+    sync(): Promise<bigint> {
+        return this.ring.sync();
+    }
+}
@@ -0,0 +1,143 @@
+import type { TableIO } from "./table";
+import { kWayMerger } from "./k_way_merge_heaper";
+import type { ManifestEntry } from "./types";
+import {
+    MAX_LEVELS,
+    L0_COMPACTION_TRIGGER,
+    L1_MAX_BYTES,
+    LEVEL_SIZE_MULTIPLIER,
+    TARGET_TABLE_BYTES,
+    REC_TOMBSTONE,
+} from "./constants";
+import { cmp16, log, LogLevel } from "./utils";
+
+type Range = { min: Uint8Array; max: Uint8Array };
+
+export type Compaction = {
+    level: number;              // input level; output goes to level + 1
+    inputs: ManifestEntry[];    // tables picked at `level`
+    overlaps: ManifestEntry[];  // tables at level + 1 sharing their prefix range
+};
+
+function rangeOf(entries: ManifestEntry[]): Range {
+    let min = entries[0]!.minPrefix;
+    let max = entries[0]!.maxPrefix;
+    for (const e of entries) {
+        if (cmp16(e.minPrefix, min) < 0) min = e.minPrefix;
+        if (cmp16(e.maxPrefix, max) > 0) max = e.maxPrefix;
+    }
+    return { min, max };
+}
+
+// Prefix ranges are inclusive on both ends
+function overlaps(e: ManifestEntry, r: Range) {
+    return cmp16(e.minPrefix, r.max) <= 0 && cmp16(e.maxPrefix, r.min) >= 0;
+}
+
+export function maxBytesForLevel(level: number) {
+    return L1_MAX_BYTES * LEVEL_SIZE_MULTIPLIER ** (level - 1);
+}
+
+export class Compactor {
+    // Per-level cursor (last compacted maxPrefix) so Ln compactions rotate through the key space
+    private cursor = new Map<number, Uint8Array>();
+
+    constructor(private tio: TableIO) { }
+
+    private at(level: number) {
+        return this.tio.entries.filter((e) => e.level === level);
+    }
+
+    levelBytes(level: number) {
+        return this.at(level).reduce((s, e) => s + e.metaLen, 0);
+    }
+
+    // L0 is scored by table count, deeper levels by bytes; >= 1 means over the limit
+    score(level: number) {
+        if (level === 0) return this.at(0).length / L0_COMPACTION_TRIGGER;
+        return this.levelBytes(level) / maxBytesForLevel(level);
+    }
+
+    // Compaction for the level furthest over its limit, or null if the tree is in shape
+    pick(): Compaction | null {
+        let best = -1;
+        let bestScore = 1;
+        for (let level = 0; level < MAX_LEVELS - 1; level++) {
+            const s = this.score(level);
+            if (s >= bestScore) {
+                best = level;
+                bestScore = s;
+            }
+        }
+        return best < 0 ? null : this.plan(best);
+    }
+
+    // All of L0 (its tables overlap each other) or one table from a deeper level,
+    // plus every table one level down that overlaps them
+    plan(level: number): Compaction | null {
+        const at = this.at(level);
+        if (at.length === 0) return null;
+
+        let inputs: ManifestEntry[];
+        if (level === 0) {
+            inputs = at;
+        } else {
+            const sorted = [...at].sort((a, b) => cmp16(a.minPrefix, b.minPrefix));
+            const after = this.cursor.get(level);
+            inputs = [sorted.find((e) => !after || cmp16(e.minPrefix, after) > 0) ?? sorted[0]!];
+        }
+
+        const range = rangeOf(inputs);
+        return { level, inputs, overlaps: this.at(level + 1).filter((e) => overlaps(e, range)) };
+    }
+
+    async compact(c: Compaction) {
+        const out = c.level + 1;
+        const all = [...c.inputs, ...c.overlaps];
+        const range = rangeOf(all);
+
+        // Tombstones can only go once no deeper level may still hold the key
+        const dropTombstones = !this.tio.entries.some((e) => e.level > out && overlaps(e, range));
+
+        const readers = await Promise.all(all.map(async (e) => this.tio.reader(await this.tio.readHead(e), { fillCache: false })));
+
+        const added: ManifestEntry[] = [];
+        try {
+            let b = this.tio.builder(out);
+            for await (const rec of kWayMerger(readers, { dropTombstones, order: this.tio.order })) {
+                b.add(rec.key, rec.value, rec.seq, rec.tombstone ? REC_TOMBSTONE : 0);
+                if (b.sizeBytes >= TARGET_TABLE_BYTES) {
+                    const e = await this.tio.writeTable(out, b);
+                    if (e) added.push(e);
+                    b = this.tio.builder(out);
+                }
+            }
+            const last = await this.tio.writeTable(out, b);
+            if (last) added.push(last);
+        } catch (e) {
+            // outputs written so far never went live
+            this.tio.discard(added);
+            throw e;
+        }
+
+        // applyEdit gives `added` back itself if it fails before publishing them
+        await this.tio.applyEdit({ added, removed: all });
+        if (c.level > 0) this.cursor.set(c.level, rangeOf(c.inputs).max);
+
+        log(LogLevel.info, "Compacted", {
+            from: c.level,
+            to: out,
+            inputs: c.inputs.length,
+            overlaps: c.overlaps.length,
+            outputs: added.length,
+            dropTombstones,
+        });
+    }
+
+    // Compact until every level is within its limit
+    async run() {
+        for (let c = this.pick(); c; c = this.pick()) {
+            await this.compact(c);
+        }
+    }
+}
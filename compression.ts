@@ -0,0 +1,31 @@
+import * as zlib from "node:zlib";
+import { type Codec, TABLE_RESULT, DatabaseError } from "./constants";
+
+// zstd only exists in newer runtimes
+export function codecAvailable(codec: Codec) {
+    return codec !== "zstd" || typeof zlib.zstdCompressSync === "function";
+}
+
+function unsupported(codec: Codec): never {
+    throw new DatabaseError(TABLE_RESULT.UNSUPPORTED_CODEC, `codec ${codec} is not available in this runtime`);
+}
+
+export function compress(codec: Codec, buf: Uint8Array): Uint8Array {
+    switch (codec) {
+        case "none": return buf;
+        case "deflate": return zlib.deflateRawSync(buf);
+        case "gzip": return zlib.gzipSync(buf);
+        case "brotli": return zlib.brotliCompressSync(buf);
+        case "zstd": return codecAvailable(codec) ? zlib.zstdCompressSync(buf) : unsupported(codec);
+    }
+}
+
+export function decompress(codec: Codec, buf: Uint8Array): Uint8Array {
+    switch (codec) {
+        case "none": return buf;
+        case "deflate": return zlib.inflateRawSync(buf);
+        case "gzip": return zlib.gunzipSync(buf);
+        case "brotli": return zlib.brotliDecompressSync(buf);
+        case "zstd": return codecAvailable(codec) ? zlib.zstdDecompressSync(buf) : unsupported(codec);
+    }
+}
@@ -10,22 +10,114 @@ export const J_LENGTH = 256 * BLOCK;
 
 export const MANIFEST_OFF = J_START + J_LENGTH;
 
+export const TABLES_OFF = MANIFEST_OFF + BLOCK;
+
+export const SB_MAGIC = 0x544d534c; // "LSMT"
+
+export const SB_VERSION = 5;
+
+// Files whose superblock is older than this were written with the baseline WAL record format,
+// which has no checksums (baseline tables are told apart by their v1 manifest page)
+export const SB_CHECKSUMMED_VERSION = 4;
+
+export const KEY_ORDER_NAME_LEN = 32;
+
+export const SB_FIXED = 4 /*magic*/ + 2 /*version*/ + 2 /*block_size*/ + 16 /*uuid*/ + 5 * 8 /*epoch..manifest_off*/ + KEY_ORDER_NAME_LEN; // 96
+
+export const SB_FREE_CAP = Math.floor((BLOCK - SB_FIXED - 4 /*free_count*/ - 4 /*crc*/) / (8 + 4));
+
 export const OP = { set: 1, del: 2, get: 3, check: 4 } as const;
 
 export type Op = keyof typeof OP;
 
 export const OP_INV: Record<number, Op> = { 1: "set", 2: "del", 3: "get", 4: "check" };
 
-export const MAX_INFLIGHT = 8;
+// WAL op byte flag: set on every record of a write batch except its last
+export const WAL_OP_MORE = 0x80;
+
+// Table block compression (u8 in TableMeta)
+export const CODEC = { none: 0, deflate: 1, gzip: 2, brotli: 3, zstd: 4 } as const;
+
+export type Codec = keyof typeof CODEC;
+
+export const CODEC_INV: Record<number, Codec> = { 0: "none", 1: "deflate", 2: "gzip", 3: "brotli", 4: "zstd" };
+
+// Group commit: a WAL batch closes at GROUP_COMMIT_MAX_OPS ops or GROUP_COMMIT_MAX_BYTES of
+// records, whichever comes first. With GROUP_COMMIT_DELAY_MS > 0 a batch that isn't full
+// waits up to that long for more writes before it is committed.
+export const GROUP_COMMIT_MAX_OPS = 256;
+
+export const GROUP_COMMIT_MAX_BYTES = 256 * 1024;
+
+export const GROUP_COMMIT_DELAY_MS = 0;
+
+// "group" durability: fsync once this long has passed or this many WAL bytes are unsynced
+export const GROUP_SYNC_INTERVAL_MS = 10;
+
+export const GROUP_SYNC_BYTES = 256 * 1024;
+
+// Frozen memtables waiting for the background flush; writes stall while this many are queued
+export const MAX_IMMUTABLE_MEMTABLES = 4;
+
+// A memtable is frozen for flushing once its keys and values take about this much memory.
+// Each entry also counts MEMTABLE_ENTRY_OVERHEAD bytes for its LSN, flags and tree slot.
+// Unflushed memtables pin their WAL records; the default gives each of them an equal share of
+// the journal, and when overwrites fill it anyway commits wait for flushes to free it.
+export const MEMTABLE_BYTES = Math.floor(J_LENGTH / (MAX_IMMUTABLE_MEMTABLES + 2));
+
+export const MEMTABLE_ENTRY_OVERHEAD = 64;
+
+// A failed background flush is retried after FLUSH_RETRY_MS, doubling up to FLUSH_RETRY_MAX_MS
+// while it keeps failing
+export const FLUSH_RETRY_MS = 100;
+
+export const FLUSH_RETRY_MAX_MS = 10_000;
 
 export const PREFIX = 16;
 
+// Table record flags (u8 per record)
+export const REC_TOMBSTONE = 1 << 0;
+
+// Data block layout (u8 in TableMeta); the only one this version reads or writes
+export const BLOCK_PREFIXED = 1;    // [count u16] prefix-compressed records, restart array at the block end
+
+// Every RESTART_INTERVAL-th record in a prefixed block stores its whole key
+export const RESTART_INTERVAL = 16;
+
+// Bloom filters: bits per key by default (0 disables), and the probe count ceiling
+export const BLOOM_BITS_PER_KEY = 10;
+
+export const BLOOM_MAX_PROBES = 30;
+
+// Cache budgets: decompressed data blocks shared by all tables, and table heads
+export const BLOCK_CACHE_BYTES = 8 * 1024 * 1024;
+
+export const HEAD_CACHE_BYTES = 2 * 1024 * 1024;
+
 export const ENTRY_SIZE = 2 /*level*/ + 2 /*reserved*/ + 8 /*meta_off*/ + 4 /*meta_len*/ + PREFIX + PREFIX; // 48
 
 export const HEADER_SIZE = 2 /*version*/ + 2 /*reserved*/ + 8 /*epoch*/ + 2 /*count*/ + 2 /*reserved*/; // 16
 
 export const CAP = Math.floor((BLOCK - HEADER_SIZE) / ENTRY_SIZE);
 
+// v2 manifest pages chain to overflow pages
+export const MANIFEST_VERSION = 2;
+
+export const HEADER_SIZE_V2 = HEADER_SIZE + 8 /*next page off*/; // 24
+
+export const CAP_V2 = Math.floor((BLOCK - HEADER_SIZE_V2) / ENTRY_SIZE);
+
+// Leveled compaction
+export const MAX_LEVELS = 7;
+
+export const L0_COMPACTION_TRIGGER = 4; // L0 table count
+
+export const L1_MAX_BYTES = 10 * 1024 * 1024;
+
+export const LEVEL_SIZE_MULTIPLIER = 10;
+
+export const TARGET_TABLE_BYTES = 2 * 1024 * 1024;
+
 // Error codes (unique across all modules)
 export const WAL_RESULT = {
     OK: 0,
@@ -43,6 +135,9 @@ export const TABLE_RESULT = {
     BROKEN_TABLE_SIZE: 2006,
     ENTRY_NOT_EXIST: 2007,
     INVALID_PREFIX_SIZE: 2008,
+    CHECKSUM_MISMATCH: 2009,
+    UNSUPPORTED_CODEC: 2010,
+    UNSUPPORTED_FORMAT: 2011,
 } as const;
 
 export const MANIFEST_RESULT = {
@@ -63,6 +158,10 @@ export const SUPERBLOCK_RESULT = {
     OK: 0,
     NO_VALID_SUPERBLOCKS: 5001,
     NOT_INITIALIZED: 5002,
+    NOT_A_DATABASE: 5003,
+    UUID_MISMATCH: 5004,
+    KEY_ORDER_MISMATCH: 5005,
+    INVALID_KEY_ORDER: 5006,
 } as const;
 
 export const CLOCK_RESULT = {
@@ -71,6 +170,11 @@ export const CLOCK_RESULT = {
     BROKEN_CLOCK_STATE: 6002,
 } as const;
 
+export const RING_RESULT = {
+    OK: 0,
+    HALTED: 7001,
+} as const;
+
 export class DatabaseError extends Error {
     constructor(public code: number, message: string) {
         super(message);
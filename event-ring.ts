@@ -4,22 +4,73 @@ import { LSM } from "./lsm-tree";
 import { TableIO } from "./table";
 import { WAL_Manager } from "./wal.ts";
 import { SuperblockManager } from "./superblock";
+import { Compactor } from "./compaction";
 import type { Op } from "./constants";
-import { MAX_INFLIGHT } from "./constants";
+import { GROUP_COMMIT_MAX_OPS, GROUP_COMMIT_MAX_BYTES, GROUP_COMMIT_DELAY_MS, TABLE_RESULT, RING_RESULT, WAL_RESULT, DatabaseError } from "./constants";
+import { GROUP_SYNC_INTERVAL_MS, GROUP_SYNC_BYTES, FLUSH_RETRY_MS, FLUSH_RETRY_MAX_MS } from "./constants";
+import type { MemEntry, ScanOptions } from "./types";
+import type BTree from "./b_tree/b_tree.ts";
 import { log, LogLevel } from "./utils";
 import type { Clock } from "./clock.ts";
+import type { WriteBatch } from "./write-batch";
 
 export type Operation = Link<Operation> & {
     op: Op,
     key: string,
     value?: string
     ts: bigint,
-    onComplete?: (r: string) => void
+    lsn?: bigint,           // assigned by WAL_Manager.appendMany
+    more?: boolean,         // the next queued op belongs to the same write batch
+    sync?: boolean,         // fsync the batch holding this op (true) or don't (false), whatever the ring's durability
+    onComplete?: (r?: string) => void   // after the op is logged (and synced, if its batch was) and applied; gets carry their result
+    onError?: (e: Error) => void        // the batch holding the op could not be logged
 }
 
+// When committed batches are fsynced:
+//   sync  - every batch, before its writes resolve
+//   group - once intervalMs has passed or `bytes` of WAL are unsynced, whichever comes first
+//   none  - only at flush checkpoints, halt and explicit sync(); the OS decides otherwise
+export type Durability =
+    | { mode: "sync" }
+    | { mode: "group"; intervalMs?: number; bytes?: number }
+    | { mode: "none" };
+
+export type RingOptions = {
+    maxBatchOps?: number;
+    maxBatchBytes?: number;
+    commitDelayMs?: number;
+    durability?: Durability;
+};
+
+// Approximate WAL bytes of an op, for sizing group commits
+function opBytes(op: Operation) {
+    return 24 + op.key.length + (op.value?.length ?? 0);
+}
+
+// Single writer loop. It sleeps while the queue is empty and dispatch wakes it; each pass
+// commits whatever queued up meanwhile (up to the size targets) as one WAL append.
 export class EventRing {
     private q = new IntrusiveQueue<Operation>();
+    private queuedBytes = 0;
     private running: boolean = false
+    private stopped = false;            // halted (or the loop died); writes are rejected until start()
+    private failed: Error | null = null; // the loop died on a WAL write or sync; start() won't revive it
+    private compactor: Compactor
+    private wake: (() => void) | null = null;
+    private filling = false;            // waiting out commitDelayMs for a batch to fill
+    private done: Promise<void> = Promise.resolve();
+    private maxBatchOps: number;
+    private maxBatchBytes: number;
+    private commitDelayMs: number;
+    private durability: Durability;
+    private syncDue = false;
+    private syncTimer: ReturnType<typeof setTimeout> | null = null;
+    private syncWaiters: { resolve: (lsn: bigint) => void; reject: (e: Error) => void }[] = [];
+    private flushing: Promise<void> | null = null;
+    private flushFailure: { error: Error; backoffMs: number } | null = null;   // the last flush failed
+    private flushRetry: ReturnType<typeof setTimeout> | null = null;
+    private memWalStart: number;        // WAL offset where the active memtable's records begin
+    private walShare: number;           // WAL bytes one memtable may pin before it is frozen
 
 
     constructor(
@@ -28,98 +79,358 @@ export class EventRing {
         private tio: TableIO,
         private time: Clock,
         private sbManager?: SuperblockManager,
+        opts: RingOptions = {},
     ) {
+        this.compactor = new Compactor(tio)
+        this.maxBatchOps = opts.maxBatchOps ?? GROUP_COMMIT_MAX_OPS;
+        this.commitDelayMs = opts.commitDelayMs ?? GROUP_COMMIT_DELAY_MS;
+        this.durability = opts.durability ?? { mode: "sync" };
+        // Overwrites grow the log but not the memtable, so memtables are also frozen by the log
+        // they pin; when they pin all of it anyway, commits wait on the flusher (makeRoom)
+        this.memWalStart = walManager.getHead();
+        this.walShare = Math.floor(walManager.getCapacity() / (tree.maxImmutables + 2));
+        // a batch appended just short of the share still leaves the memtable under two shares
+        this.maxBatchBytes = Math.min(opts.maxBatchBytes ?? GROUP_COMMIT_MAX_BYTES, Math.floor(this.walShare / 2));
     }
 
     start() {
+        if (this.running || this.failed) return;
         this.running = true
+        this.stopped = false;
+        this.flushFailure = null; // its retry was cancelled at halt; the next freeze tries again
+        this.done = this.run()
+            .catch((e) => {
+                this.failed = e as Error;
+                log(LogLevel.err, "EventRing stopped", e);
+            })
+            .finally(() => this.stop());
     }
 
+    // Resolves once the batch in flight (if any) is committed and everything logged is synced.
+    // Ops still queued then, and writes dispatched until the next start(), are rejected.
     halt() {
         this.running = false
+        this.wake?.();
+        return this.done.finally(() => this.stop());
+    }
+
+    private stop() {
+        this.running = false;
+        this.stopped = true;
+        if (this.flushRetry) clearTimeout(this.flushRetry);
+        this.flushRetry = null;
+        const e = new DatabaseError(RING_RESULT.HALTED, "event ring halted");
+        for (let op = this.q.shift(); op; op = this.q.shift()) op.onError?.(e);
+        this.queuedBytes = 0;
+        for (const w of this.syncWaiters.splice(0)) w.reject(e);
     }
 
     dispatch(op: Operation) {
         op.ts = this.time.now;
         log(LogLevel.debug, "Operation dispatched", { op: op.op, key: op.key });
+        if (op.op === "get") {
+            // reads never touch the WAL; they run now, alongside whatever batch is in flight
+            this.get(op.key).then((v) => op.onComplete?.(v), (e) => op.onError?.(e));
+            return;
+        }
+        if (this.stopped) {
+            op.onError?.(new DatabaseError(RING_RESULT.HALTED, "event ring halted"));
+            return;
+        }
         this.q.push(op);
+        this.queuedBytes += opBytes(op);
+        if (this.wake && (!this.filling || this.batchFull())) this.wake();
+    }
+
+    // Memtables, then tables. Consumes no LSN, journal space or fsync.
+    get(key: string) {
+        return this.tree.get(this.tio, key);
+    }
+
+    scan(opts: ScanOptions = {}) {
+        return this.tree.scan(this.tio, opts);
+    }
+
+    memtableStats() {
+        return this.tree.memtableStats();
+    }
+
+    // Everything logged so far is fsynced up to here
+    get durableLSN() {
+        return this.walManager.getDurableLSN();
+    }
+
+    // Resolves with the durable LSN once every write logged so far is fsynced
+    sync(): Promise<bigint> {
+        if (this.walManager.getDurableLSN() >= this.walManager.getLastLSN()) {
+            return Promise.resolve(this.walManager.getDurableLSN());
+        }
+        if (!this.running) {
+            // no loop to wake; once the last one is done nothing else appends
+            return this.done.then(() => this.walManager.getDurableLSN() >= this.walManager.getLastLSN()
+                ? this.walManager.getDurableLSN()
+                : this.walManager.sync(this.sbManager));
+        }
+        return new Promise((resolve, reject) => {
+            this.syncWaiters.push({ resolve, reject });
+            this.syncDue = true;
+            this.wake?.();
+        });
+    }
+
+    // Queued back to back and never split across WAL appends. `onComplete` gets the LSN of
+    // the batch's last op once every op is in the memtable; `onError` if the batch was not logged.
+    dispatchBatch(
+        batch: WriteBatch,
+        { onComplete, onError, sync }: { onComplete?: (lsn: bigint) => void; onError?: (e: Error) => void; sync?: boolean } = {},
+    ) {
+        const ops = batch.ops;
+        if (ops.length === 0) return onComplete?.(this.walManager.getLastLSN());
+        ops.forEach((o, i) => {
+            const last = i === ops.length - 1;
+            const op: Operation = {
+                ...o,
+                more: !last,
+                sync,
+                next: null,
+                onComplete: last && onComplete ? () => onComplete(op.lsn ?? 0n) : undefined,
+                onError: last ? onError : undefined,
+            };
+            this.dispatch(op);
+        });
     }
 
     async submit(tree: LSM, op: Operation) {
-        return new Promise<string>(async (r) => {
+        return new Promise<string | undefined>(async (r) => {
             switch (op.op) {
                 case "check": {
                     setImmediate(() => this.walManager.checkpoint(this.walManager.getLastLSN(), this.sbManager!))
-                    return r("");
+                    return r(undefined);
                 }
                 case "set": {
-                    await tree.put(this, op.key, op.value ?? "");
-                    return r("");
+                    await tree.put(this, op.key, op.value ?? "", op.lsn ?? 0n);
+                    return r(undefined);
+                }
+                case "del": {
+                    await tree.del(this, op.key, op.lsn ?? 0n);
+                    return r(undefined);
                 }
                 case "get": {
-                    const result = tree.get(op.key);
-                    return r(result || "");
+                    return r(await tree.get(this.tio, op.key));
                 }
             }
         });
     }
 
 
-    async runFor(ms: number) {
-        const ms_dur = BigInt(ms * 1000000);
-        const end = this.time.now + ms_dur;
+    private batchFull() {
+        return this.q.length >= this.maxBatchOps || this.queuedBytes >= this.maxBatchBytes;
+    }
 
-        while (true) {
-            if (this.time.now >= end) break;
+    // Sleep until dispatch (or halt) calls wake, or `ms` passes
+    private sleep(ms?: number) {
+        return new Promise<void>((resolve) => {
+            const timer = ms === undefined ? undefined : setTimeout(() => this.wake?.(), ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                this.wake = null;
+                resolve();
+            };
+        });
+    }
 
-            const batch = this.q.takeUpTo(MAX_INFLIGHT);
+    // Up to the size targets, extended to the end of a write batch the cut lands in
+    private takeBatch() {
+        const batch: Operation[] = [];
+        let bytes = 0;
+        for (let op = this.q.shift(); op; op = this.q.shift()) {
+            batch.push(op);
+            bytes += opBytes(op);
+            if (op.more) continue;
+            if (batch.length >= this.maxBatchOps || bytes >= this.maxBatchBytes) break;
+        }
+        this.queuedBytes -= bytes;
+        return batch;
+    }
 
-            if (batch.length === 0) {
-                // Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 0);
+    private async run() {
+        while (this.running) {
+            if (this.q.length === 0) {
+                if (this.syncDue) await this.syncWAL();
+                else await this.sleep();
                 continue;
             }
-
-            if (this.tree.recoverFlush > 0n) {
-                this.tree.recoverFlush = BigInt(-1)
-            } else {
-                await this.walManager.appendMany(batch)
+            if (this.commitDelayMs > 0 && !this.batchFull()) {
+                this.filling = true;
+                await this.sleep(this.commitDelayMs);
+                this.filling = false;
             }
+            await this.commit(this.takeBatch());
+        }
+        await this.flushing;
+        // a clean halt leaves nothing unsynced, whatever the durability mode
+        if (this.syncWaiters.length > 0 || this.walManager.getDurableLSN() < this.walManager.getLastLSN()) await this.syncWAL();
+    }
 
-            if (this.sbManager) {
-                await this.sbManager.checkpoint({
-                    checkpointLSN: this.walManager.getLastLSN(),
-                    jHead: BigInt(this.walManager.getHead()),
-                    jTail: BigInt(this.walManager.getTail()),
-                });
+    private async syncWAL() {
+        this.syncDue = false;
+        if (this.syncTimer) clearTimeout(this.syncTimer);
+        this.syncTimer = null;
+        const waiters = this.syncWaiters;
+        this.syncWaiters = [];
+        try {
+            const lsn = await this.walManager.sync(this.sbManager);
+            for (const w of waiters) w.resolve(lsn);
+        } catch (e) {
+            for (const w of waiters) w.reject(e as Error);
+            throw e;
+        }
+    }
+
+    private wantsSync(batch: Operation[]) {
+        if (this.syncDue || batch.some((op) => op.sync ?? this.durability.mode === "sync")) return true;
+        const d = this.durability;
+        return d.mode === "group" && this.walManager.getUnsyncedBytes() >= (d.bytes ?? GROUP_SYNC_BYTES);
+    }
+
+    // Group mode: make sure a sync happens within intervalMs of the first unsynced batch
+    private scheduleSync() {
+        const d = this.durability;
+        if (d.mode !== "group" || this.syncTimer) return;
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            this.syncDue = true;
+            this.wake?.();
+        }, d.intervalMs ?? GROUP_SYNC_INTERVAL_MS);
+    }
+
+    // One group commit: log the batch, then apply it
+    private async commit(batch: Operation[]) {
+        const blocked = (await this.rotate()) ?? (await this.makeRoom(batch));
+        if (blocked) {
+            // the memtable or the WAL is full and failed flushes hold what could free it
+            log(LogLevel.err, "Memtables or WAL full while flushes fail, rejecting batch", { ops: batch.length, error: blocked.message });
+            for (const op of batch) op.onError?.(blocked);
+            return;
+        }
+        try {
+            await this.walManager.appendMany(batch, { sync: false })
+
+            // syncing publishes the new tail; checkpointLSN only moves when a flush lands
+            if (this.wantsSync(batch)) await this.syncWAL();
+            else this.scheduleSync();
+        } catch (e) {
+            for (const op of batch) op.onError?.(e as Error);
+            if (e instanceof DatabaseError && e.code === WAL_RESULT.WAL_FULL) {
+                // nothing was written; its callers decide whether to retry
+                log(LogLevel.err, "WAL full, rejecting batch", { ops: batch.length, error: e.message });
+                return;
             }
+            // Records that failed to write or sync may still be replayed on the next open, yet
+            // they were never applied: the ring stops rather than log anything after them
+            throw e;
+        }
+
 
+        for (let i = 0; i < batch.length;) {
+            let j = i;
+            while (batch[j]!.more && j + 1 < batch.length) j++;
+            const group = batch.slice(i, j + 1);
+            i = j + 1;
 
-            for (const op of batch) {
-                await new Promise<void>((r) => setImmediate(async () => {
-                    const v = await this.submit(this.tree, op);
-                    op.onComplete?.(v);
-                    r();
-                }));
+            if (group.length > 1) {
+                // a write batch lands in one synchronous step
+                this.tree.applyBatch(group);
+                for (const op of group) op.onComplete?.();
+                continue;
             }
-            if (this.tree.needsFlush()) {
-                this.tree.freeze();
-                this.tree.memTable.clear()
-                if (this.tree.freezeTable) {
-                    await this.tio.flushWAL(this.tree.freezeTable)
-                    await this.walManager.checkpoint(this.walManager.getLastLSN(), this.sbManager!)
-                }
+            const op = group[0]!;
+            await new Promise<void>((r) => setImmediate(async () => {
+                const v = await this.submit(this.tree, op);
+                op.onComplete?.(v);
+                r();
+            }));
+        }
+        // freeze now rather than before the next batch; a failure waits for that one
+        await this.rotate();
+    }
+
+    // Freezes the memtable once it is due for a flush, by its own size or by the WAL it pins.
+    // Returns the flush error instead while every immutable slot is taken and the flusher is failing.
+    private async rotate(): Promise<Error | null> {
+        if (!this.tree.needsFlush() && this.walManager.bytesSince(this.memWalStart) < this.walShare) return null;
+        // writes only wait on the flusher while every immutable slot is taken
+        while (this.tree.immutablesFull()) {
+            if (this.flushFailure) return this.flushFailure.error;
+            await this.startFlusher();
+        }
+        this.freeze();
+        if (!this.flushFailure) this.startFlusher(); // else the pending retry picks it up
+        return null;
+    }
+
+    // Waits on the flusher until the WAL can take the batch, freezing the active memtable if
+    // nothing else pins the log. Returns the flush error instead while the flusher is failing.
+    private async makeRoom(batch: Operation[]): Promise<Error | null> {
+        while (!this.walManager.fits(batch)) {
+            if (this.flushFailure) return this.flushFailure.error;
+            if (!this.tree.oldestImmutable()) {
+                // an empty log can't make more room; appendMany rejects the batch as too big
+                if (this.walManager.getUsed() === 0) return null;
+                this.freeze();
             }
+            await this.startFlusher();
         }
-        // if (this.walManager.isDirty() && this.tree.needsCompaction()) {
-        //     await this.walManager.checkpoint(this.walManager.getLastLSN(), this.sbManager!)
-        // }
+        return null;
     }
 
-    async tick() {
-        if (!this.running) return
+    private freeze() {
+        this.tree.freeze(this.walManager.getLastLSN());
+        this.memWalStart = this.walManager.getTail();
+    }
 
-        await this.runFor(10);
+    // Flushes frozen memtables, oldest first, until none are left, then compacts. Commits go on meanwhile.
+    // Never rejects: a failure is logged and retried with backoff, and the immutables stay
+    // readable (and in the WAL) until a retry gets through.
+    private startFlusher() {
+        this.flushing ??= this.flushImmutables().then(
+            () => {
+                this.flushFailure = null;
+            },
+            (e) => {
+                const backoffMs = this.flushFailure ? Math.min(this.flushFailure.backoffMs * 2, FLUSH_RETRY_MAX_MS) : FLUSH_RETRY_MS;
+                this.flushFailure = { error: e as Error, backoffMs };
+                log(LogLevel.err, "Background flush failed", { retryInMs: backoffMs, error: (e as Error).message });
+                this.flushRetry = setTimeout(() => {
+                    this.flushRetry = null;
+                    if (this.running) this.startFlusher();
+                }, backoffMs);
+            },
+        ).finally(() => {
+            this.flushing = null;
+        });
+        return this.flushing;
+    }
 
-        setImmediate(() => this.tick())
+    private async flushImmutables() {
+        for (let imm = this.tree.oldestImmutable(); imm; imm = this.tree.oldestImmutable()) {
+            await this.flush(imm.table)
+            // the table is published: retire it before anything else can fail and flush it twice
+            this.tree.retire(imm)
+            await this.walManager.checkpoint(imm.lsn, this.sbManager!)
+        }
+        // a failure here is retried on its own; every immutable is already flushed
+        await this.compactor.run()
+    }
+
+    private async flush(table: BTree<string, MemEntry>) {
+        try {
+            await this.tio.flushWAL(table)
+        } catch (e) {
+            if (!(e instanceof DatabaseError) || e.code !== TABLE_RESULT.NEEDS_COMPACTION) throw e
+            log(LogLevel.warn, "Out of table space, compacting before retrying flush")
+            await this.compactor.run()
+            await this.tio.flushWAL(table)
+        }
     }
 }
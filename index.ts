@@ -3,8 +3,10 @@ import { SuperblockManager } from "./superblock";
 import { WAL_Manager } from "./wal";
 import { LSM } from "./lsm-tree";
 import { EventRing } from "./event-ring";
-import { TableIO, TableReader } from "./table";
-import { J_START } from "./constants";
+import { Client } from "./client";
+import { TableIO } from "./table";
+import { J_START, MEMTABLE_BYTES } from "./constants";
+import { HASH_ORDER } from "./key-order";
 import { Clock } from "./clock";
 import { log, LogLevel } from "./utils";
 
@@ -14,14 +16,17 @@ async function main() {
     const io = new FileIO(path);
     try {
         await io.open("r+");
-    } catch {
+    } catch (e) {
+        // Only create a missing file; "w+" truncates anything that exists
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
         await io.open("w+");
     }
 
     const wal = new WAL_Manager(io);
     const sbm = new SuperblockManager(io);
     const time = new Clock()
-    let tio = new TableIO(io)
+    const keyOrder = HASH_ORDER;
+    let tio = new TableIO(io, sbm, { keyOrder })
 
 
     const fileSize = await io.size();
@@ -30,48 +35,46 @@ async function main() {
         await sbm.formatInitial({
             journalStart: J_START,
             epoch: time.now,
+            keyOrder: keyOrder.name,
         });
-        wal.format(1073741824)
+        await wal.format(1073741824)
         await tio.formatInitial({ epoch: time.now })
         // wal.initFrom(WAL_Manager.J_START, WAL_Manager.J_START, 0n);
     } else {
-        // Load SB and init WAL tail/head/lsn
-        const sb = await sbm.load();
+        // Load SB and init WAL tail/head/lsn; never format over a file we can't identify
+        const sb = await sbm.load().catch((e) => {
+            log(LogLevel.err, `Refusing to open ${path}`, e);
+            process.exit(1);
+        });
         time.loadEpoc(sbm)
-        tio = await tio.load()
-        await wal.initFrom(Number(sb.jHead), Number(sb.jTail), sb.checkpointLSN);
+        // The WAL goes first: a baseline journal is only recognised until a superblock flip
+        // (like the one publishing upgraded tables) marks the file current
+        await wal.initFrom(Number(sb.jHead), Number(sb.jTail), sb.checkpointLSN, sbm);
+        tio = await tio.load().catch((e) => {
+            log(LogLevel.err, `Refusing to open ${path}`, e);
+            process.exit(1);
+        });
     }
 
 
-    const t = new LSM(8);
-    const er = new EventRing(t, wal, tio, time, sbm);
-
-
+    const t = new LSM(MEMTABLE_BYTES, tio.order);
     if (wal.getUsed() > 0) {
-        await t.recover(wal, sbm, er)
+        await t.recover(wal, sbm)
     }
 
+    // Replay is finished before the ring can accept new writes
+    const er = new EventRing(t, wal, tio, time, sbm);
+    const db = new Client(er);
+
     function fill(a: number) {
         for (let i = 0; i < a; i++) {
-            er.dispatch({
-                op: "set",
-                key: `${i}`,
-                value: "hi",
-                ts: 0n,
-                next: null,
-            });
+            db.put(`${i}`, "hi").catch((e) => log(LogLevel.err, "Write failed", { key: `${i}`, error: e.message }));
         }
     }
 
 
     function set(k: string, v: string) {
-        er.dispatch({
-            op: "set",
-            key: k,
-            value: v,
-            ts: 0n,
-            next: null,
-        });
+        return db.put(k, v);
     }
 
 
@@ -81,20 +84,19 @@ async function main() {
     fill(9)
 
     process.on("SIGINT", async () => {
-        er.halt()
+        await er.halt()
         log(LogLevel.info, "Saving state")
         await sbm.checkpoint({ epoch: time.now })
         process.exit()
     });
 
     er.start();
-    er.tick()
 
 
 
     let readers = []
     for (const head of await tio.aggHeads(0)) {
-        const tr = new TableReader(io, head)
+        const tr = tio.reader(head)
         readers.push(tr)
     }
 }
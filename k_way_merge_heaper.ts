@@ -1,18 +1,11 @@
-import type { TableReader } from "./table";
-import { cmp16, extractSortKey16 } from "./utils";
+import { cmp16 } from "./utils";
+import { HASH_ORDER, type KeyOrder } from "./key-order";
 
-type Cur = { key: Uint8Array; value: Uint8Array; seq?: bigint; tombstone?: boolean };
+export type Cur = { key: Uint8Array; value: Uint8Array; seq: bigint; tombstone: boolean };
+// Anything yielding records in table order: a TableReader, a table range, a memtable snapshot
+export type Source = { next: () => Promise<Cur | null> };
 type Src = { id: number; cur: Cur; next: () => Promise<Cur | null>, p16: Uint8Array };
 
-function cmpBytes(a: Uint8Array, b: Uint8Array): number {
-    const n = Math.min(a.length, b.length);
-    for (let i = 0; i < n; i++) {
-        const d = a[i] - b[i];
-        if (d !== 0) return d;
-    }
-    return a.length - b.length;
-}
-
 class Heap<T> {
     constructor(private a: T[], private cmp: (x: T, y: T) => number) {
         this.heapify();
@@ -22,6 +15,10 @@ class Heap<T> {
         return this.a.length;
     }
 
+    peek(): T | undefined {
+        return this.a[0];
+    }
+
     push(x: T): void {
         this.a.push(x);
         this.up(this.a.length - 1);
@@ -81,79 +78,54 @@ class Heap<T> {
     }
 }
 
-function keyNum16(p16: Uint8Array): number {
-    let x = 0;
-    for (let i = 0; i < 8; i++) x = (x << 8) | p16[i];
-    return x >>> 0;
+// Table order (or its reverse), then newest version first among equal keys. Cached prefixes
+// decide most comparisons; the full comparator only runs when they tie.
+function srcComparator(order: KeyOrder, reverse: boolean) {
+    return (a: Src, b: Src): number => {
+        const d = cmp16(a.p16, b.p16) || order.compare(a.cur.key, b.cur.key);
+        if (d !== 0) return reverse ? -d : d;
+        if (a.cur.seq !== b.cur.seq) return a.cur.seq > b.cur.seq ? -1 : 1;
+        return a.id - b.id;
+    };
 }
 
-export async function* kWayMerger(readers: TableReader[]) {
+// Tombstones are emitted unless dropTombstones is set, which is only safe when
+// nothing older than the merged inputs can still hold the key. With `reverse` every
+// source must yield in descending table order.
+export async function* kWayMerger(
+    readers: Source[],
+    { dropTombstones = false, order = HASH_ORDER, reverse = false }: { dropTombstones?: boolean; order?: KeyOrder; reverse?: boolean } = {},
+) {
     // prime heap
     const list: Src[] = [];
     for (let i = 0; i < readers.length; i++) {
         const cur = await readers[i]!.next();
-        if (cur) list.push({ id: i, cur, p16: extractSortKey16(cur.key), next: () => readers[i]!.next() });
+        if (cur) list.push({ id: i, cur, p16: order.prefix(cur.key), next: () => readers[i]!.next() });
     }
-    const heap = new Heap<Src>(list, (s) => keyNum16(s.p16));
+    const heap = new Heap<Src>(list, srcComparator(order, reverse));
 
-    while (heap.size > 0) {
-        const first = heap.pop()!;
-        const bucket: Src[] = [first];
+    const advance = async (s: Src) => {
+        const nxt = await s.next();
+        if (!nxt) return;
+        s.cur = nxt;
+        s.p16 = order.prefix(nxt.key);
+        heap.push(s);
+    };
 
-        // gather same 16-byte prefix
-        for (; ;) {
-            const n = heap.pop();
-            if (!n) break;
-            if (cmp16(n.p16, first.p16) === 0) bucket.push(n);
-            else { heap.push(n); break; }
+    while (heap.size > 0) {
+        // the first source on a key holds its highest sequence
+        const top = heap.pop()!;
+        const best = top.cur;
+        const bestP16 = top.p16;
+        await advance(top);
+
+        // older versions of the same key are shadowed; skip past them
+        const same = (s: Src) => cmp16(s.p16, bestP16) === 0 && order.compare(s.cur.key, best.key) === 0;
+        for (let s = heap.peek(); s && same(s); s = heap.peek()) {
+            heap.pop();
+            await advance(s);
         }
 
-        // Within prefix bucket, merge by full key and emit ALL keys:
-        // Build a min-heap by full key on heads from each source in the bucket
-        const byKey = new Heap<Src>(bucket, (s) => {
-            // cheap numeric for heap; actual equality/order uses cmpBytes at extraction time
-            // we can map first 8 bytes of full key
-            let x = 0, k = s.cur.key, n = Math.min(8, k.length);
-            for (let i = 0; i < n; i++) x = (x << 8) | k[i]!;
-            return x >>> 0;
-        });
-
-        // pull until the prefix bucket is exhausted
-        while (byKey.size > 0) {
-            const a = byKey.pop()!;
-            // collect all with exact same full key
-            const same: Src[] = [a];
-            for (; ;) {
-                const b = byKey.pop();
-                if (!b) break;
-                if (cmpBytes(b.cur.key, a.cur.key) === 0) same.push(b);
-                else { byKey.push(b); break; }
-            }
-
-            // choose newest (or last) among same-key entries; drop tombstones
-            let best: Src | null = null;
-            for (const s of same) {
-                if (!best) best = s;
-                // if you track seq: if ((s.cur.seq ?? 0n) > (best.cur.seq ?? 0n)) best = s;
-                else best = s; // LWW fallback
-            }
-            if (best && !best.cur.tombstone && best.cur.value.length > 0) {
-                yield best.cur;
-            }
-
-            // advance all sources from 'same' and put back if they still share prefix
-            for (const s of same) {
-                const nxt = await s.next();
-                if (nxt) {
-                    s.cur = nxt;
-                    s.p16 = extractSortKey16(nxt.key);
-                    if (cmp16(s.p16, first.p16) === 0) {
-                        byKey.push(s); // still same prefix group
-                    } else {
-                        heap.push(s);  // moved to a new prefix; return to outer heap
-                    }
-                }
-            }
-        }
+        if (!(dropTombstones && best.tombstone)) yield best;
     }
 }
@@ -0,0 +1,64 @@
+import { KEY_ORDER_NAME_LEN, PREFIX, SUPERBLOCK_RESULT, DatabaseError } from "./constants";
+import { cmpBytes, cmpSortKey, extractSortKey16 } from "./utils";
+
+// How keys are sorted in memtables and tables. The name is persisted in the superblock,
+// so a database can only be reopened with the order it was created with.
+export type KeyOrder = {
+    name: string;
+    compare(a: Uint8Array, b: Uint8Array): number;
+    // PREFIX bytes that never sort after the prefix of a larger key (compared with cmp16);
+    // the manifest keeps these per table to skip tables that can't hold a key
+    prefix(key: Uint8Array): Uint8Array;
+};
+
+// Hashed prefix first: spreads point workloads evenly, but ranges are meaningless
+export const HASH_ORDER: KeyOrder = {
+    name: "hash",
+    compare: cmpSortKey,
+    prefix: extractSortKey16,
+};
+
+// Raw key bytes, for ordered iteration and range queries
+export const BYTES_ORDER: KeyOrder = {
+    name: "bytes",
+    compare: cmpBytes,
+    prefix: (key) => {
+        const out = new Uint8Array(PREFIX); // zero fill keeps shorter keys first
+        out.set(key.subarray(0, PREFIX));
+        return out;
+    },
+};
+
+const BUILTIN: Record<string, KeyOrder> = { hash: HASH_ORDER, bytes: BYTES_ORDER };
+
+// A user comparator; it must only return 0 for identical keys (Bloom filters hash raw bytes).
+// Without a `prefix` every table covers every key, so nothing is pruned.
+export function customOrder(
+    name: string,
+    compare: (a: Uint8Array, b: Uint8Array) => number,
+    prefix: (key: Uint8Array) => Uint8Array = () => new Uint8Array(PREFIX),
+): KeyOrder {
+    const len = new TextEncoder().encode(name).length;
+    if (len === 0 || len > KEY_ORDER_NAME_LEN || name.includes("\0")) {
+        throw new DatabaseError(SUPERBLOCK_RESULT.INVALID_KEY_ORDER, `key order name must be 1..${KEY_ORDER_NAME_LEN} bytes without NUL`);
+    }
+    if (BUILTIN[name]) {
+        throw new DatabaseError(SUPERBLOCK_RESULT.INVALID_KEY_ORDER, `key order name ${name} is reserved`);
+    }
+    return { name, compare, prefix };
+}
+
+// Pick the order for a database whose superblock names `persisted`
+export function resolveKeyOrder(persisted: string, requested?: KeyOrder): KeyOrder {
+    if (requested) {
+        if (requested.name !== persisted) {
+            throw new DatabaseError(SUPERBLOCK_RESULT.KEY_ORDER_MISMATCH, `database is sorted by "${persisted}", not "${requested.name}"`);
+        }
+        return requested;
+    }
+    const order = BUILTIN[persisted];
+    if (!order) {
+        throw new DatabaseError(SUPERBLOCK_RESULT.KEY_ORDER_MISMATCH, `database is sorted by custom order "${persisted}"; its comparator must be supplied`);
+    }
+    return order;
+}
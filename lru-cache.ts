@@ -0,0 +1,66 @@
+// Byte-bounded LRU cache. A Map keeps insertion order, so re-inserting on every hit
+// leaves the least recently used entry first.
+export class LRUCache<K, V> {
+    private items = new Map<K, { value: V; bytes: number }>();
+    private used = 0;
+    hits = 0;
+    misses = 0;
+    evictions = 0;
+
+    constructor(private capacity: number, private sizeOf: (v: V) => number) { }
+
+    get bytes() {
+        return this.used;
+    }
+
+    get size() {
+        return this.items.size;
+    }
+
+    get(key: K): V | undefined {
+        const it = this.items.get(key);
+        if (!it) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        this.items.delete(key);
+        this.items.set(key, it);
+        return it.value;
+    }
+
+    has(key: K) {
+        return this.items.has(key);
+    }
+
+    // Values larger than the whole cache are not kept
+    set(key: K, value: V) {
+        this.delete(key);
+        const bytes = this.sizeOf(value);
+        if (bytes > this.capacity) return;
+        this.items.set(key, { value, bytes });
+        this.used += bytes;
+        for (const [k, it] of this.items) {
+            if (this.used <= this.capacity) break;
+            this.items.delete(k);
+            this.used -= it.bytes;
+            this.evictions++;
+        }
+    }
+
+    delete(key: K) {
+        const it = this.items.get(key);
+        if (!it) return false;
+        this.items.delete(key);
+        this.used -= it.bytes;
+        return true;
+    }
+
+    deleteWhere(pred: (key: K) => boolean) {
+        for (const k of [...this.items.keys()]) if (pred(k)) this.delete(k);
+    }
+
+    stats() {
+        return { hits: this.hits, misses: this.misses, evictions: this.evictions, bytes: this.used, entries: this.items.size, capacity: this.capacity };
+    }
+}
@@ -1,54 +1,236 @@
 import BTree from "./b_tree/b_tree.ts";
 import { SuperblockManager } from "./superblock";
 import { WAL_Manager } from "./wal";
-import type { EventRing } from "./event-ring";
-import { OP_INV } from "./constants";
-import { log, LogLevel } from "./utils";
+import type { EventRing, Operation } from "./event-ring";
+import type { TableIO } from "./table";
+import { MAX_IMMUTABLE_MEMTABLES, MEMTABLE_BYTES, MEMTABLE_ENTRY_OVERHEAD, OP_INV } from "./constants";
+import { cmp16, log, LogLevel } from "./utils";
+import type { MemEntry, ScanOptions } from "./types";
+import { BYTES_ORDER, HASH_ORDER, type KeyOrder } from "./key-order";
+import { kWayMerger, type Source } from "./k_way_merge_heaper";
+
+// Memtable keys are strings, ordered like their encoded bytes would be in a table. Keys are
+// compared by order.prefix first, which sorts like the keys wherever it differs, so a hashed
+// order hashes each key once: the memtable's keys keep their prefix, and the key being
+// searched for keeps its own between comparisons. One per memtable; the cache goes with it.
+class MemOrder {
+    private readonly enc = new TextEncoder();
+    private readonly prefixes = new Map<string, Uint8Array>();
+    private probeKey: string | undefined;
+    private probePrefix = new Uint8Array(0);
+
+    constructor(private readonly order: KeyOrder) { }
+
+    private prefixOf(key: string) {
+        const p = this.prefixes.get(key);
+        if (p) return p;
+        if (key !== this.probeKey) {
+            this.probeKey = key;
+            this.probePrefix = this.order.prefix(this.enc.encode(key)).slice();
+        }
+        return this.probePrefix;
+    }
+
+    // Before `key` goes into the memtable
+    add(key: string) {
+        if (!this.prefixes.has(key)) this.prefixes.set(key, this.prefixOf(key));
+    }
+
+    compare = (a: string, b: string) => {
+        if (a === b) return 0;
+        const d = cmp16(this.prefixOf(a), this.prefixOf(b));
+        if (d !== 0) return d;
+        return this.order.compare(this.enc.encode(a), this.enc.encode(b));
+    };
+}
+
+// Smallest string above every string starting with `prefix`; undefined if there is none.
+// UTF-8 preserves code point order, so this is also the byte-order bound.
+function prefixEnd(prefix: string): string | undefined {
+    const cps = [...prefix];
+    while (cps.length > 0) {
+        let cp = cps.pop()!.codePointAt(0)! + 1;
+        if (cp === 0xd800) cp = 0xe000; // skip the surrogate range
+        if (cp <= 0x10ffff) return cps.join("") + String.fromCodePoint(cp);
+    }
+    return undefined;
+}
+
+// Approximate memory an entry holds in a memtable
+function entryBytes(key: string, e: MemEntry) {
+    return key.length + e.value.length + MEMTABLE_ENTRY_OVERHEAD;
+}
+
+// Snapshot of the memtable entries in [lo, hi), as a merge source
+function memSource(t: BTree<string, MemEntry>, lo: string | undefined, hi: string | undefined, reverse: boolean): Source {
+    const low = lo ?? t.minKey();
+    const high = hi ?? t.maxKey();
+    const entries = low === undefined || high === undefined ? [] : t.getRange(low, high, hi === undefined);
+    if (reverse) entries.reverse();
+
+    const enc = new TextEncoder();
+    let i = 0;
+    return {
+        next: async () => {
+            const e = entries[i++];
+            if (!e) return null;
+            const [k, v] = e;
+            return { key: enc.encode(k), value: enc.encode(v.value), seq: v.seq, tombstone: v.tombstone };
+        },
+    };
+}
+
+// A frozen memtable waiting to be flushed. `lsn` is the last WAL record it holds, where
+// the WAL can be checkpointed once its table lands.
+export type Immutable = { table: BTree<string, MemEntry>; lsn: bigint; bytes: number };
 
 export class LSM {
-    memTable = new BTree<string, string>();
-    freezeTable: BTree | null = null
-    max_size: number;
-    recoverFlush: bigint = BigInt(-1)
+    memTable: BTree<string, MemEntry>;
+    immutables: Immutable[] = [];   // newest first
+    private memBytes = 0;           // approximate footprint of memTable (see entryBytes)
+    private memOrder: MemOrder;     // memTable's comparator
 
-    constructor(max: number = 8) {
-        this.max_size = max;
+    // `maxBytes` is the memtable budget; it is frozen for flushing once it holds that much
+    constructor(readonly maxBytes: number = MEMTABLE_BYTES, readonly order: KeyOrder = HASH_ORDER, readonly maxImmutables = MAX_IMMUTABLE_MEMTABLES) {
+        this.memOrder = new MemOrder(order);
+        this.memTable = new BTree<string, MemEntry>(undefined, this.memOrder.compare);
     }
 
-    async recover(wal: WAL_Manager, sbm: SuperblockManager, er: EventRing) {
-        const scan = wal.scan(wal.getHead(), wal.getUsed());
-        const requests = await scan;
-        log(LogLevel.info, "Starting recovery", { requests: requests.length, bytes: wal.getUsed() });
-        const beforeRecov = wal.getLastLSN()
-        this.recoverFlush = beforeRecov
-        requests.forEach((v) => {
-            er.dispatch({
-                op: OP_INV[v.op]!,
-                key: v.key,
-                value: v.value,
-                next: null,
-                ts: 0,
-            })
-        })
+    // Replays logged writes into the memtable with their original LSNs.
+    // Must run before the EventRing starts; replaying twice yields the same memtable.
+    // wal.scan never returns part of a write batch, so batches replay whole.
+    async recover(wal: WAL_Manager, sbm: SuperblockManager) {
+        const checkpointLSN = sbm.current()?.checkpointLSN ?? 0n;
+        const { records, truncated } = await wal.scan(wal.getHead(), wal.getTail());
+        log(LogLevel.info, "Starting recovery", { records: records.length, bytes: wal.getUsed(), truncated, checkpointLSN });
+
+        let applied = 0;
+        for (const r of records) {
+            if (r.lsn <= checkpointLSN) continue; // already in a table
+            switch (OP_INV[r.op]) {
+                case "set":
+                    this.setMem(r.key, { value: r.value ?? "", seq: r.lsn, tombstone: false });
+                    break;
+                case "del":
+                    this.setMem(r.key, { value: "", seq: r.lsn, tombstone: true });
+                    break;
+                default:
+                    continue; // reads and checkpoints don't change state
+            }
+            applied++;
+        }
+        log(LogLevel.info, "Recovery complete", { applied, lastLSN: wal.getLastLSN() });
     }
 
-    async put(er: EventRing, key: string, value: string) {
-        this.memTable.set(key, value);
+    // An overwrite replaces the old entry, so only the size difference is counted
+    private setMem(key: string, e: MemEntry) {
+        this.memOrder.add(key);
+        const old = this.memTable.get(key);
+        if (old) this.memBytes -= entryBytes(key, old);
+        this.memTable.set(key, e);
+        this.memBytes += entryBytes(key, e);
     }
 
-    get(key: string) {
-        const inMem = this.memTable.has(key);
-        if (inMem) return this.memTable.get(key);
+    async put(er: EventRing, key: string, value: string, seq: bigint) {
+        this.setMem(key, { value, seq, tombstone: false });
     }
 
-    freeze() {
-        this.freezeTable = this.memTable.clone()
-        this.freezeTable.freeze()
+    // Deletes shadow older versions until compaction drops them at the bottom level
+    async del(er: EventRing, key: string, seq: bigint) {
+        this.setMem(key, { value: "", seq, tombstone: true });
     }
-    needsFlush() {
-        if (this.memTable.size >= this.max_size) {
-            return true
 
+    // Sets and deletes of one write batch (LSNs already assigned), applied without yielding
+    // so no reader sees part of it
+    applyBatch(ops: Operation[]) {
+        for (const op of ops) {
+            if (op.op === "set") this.setMem(op.key, { value: op.value ?? "", seq: op.lsn ?? 0n, tombstone: false });
+            else if (op.op === "del") this.setMem(op.key, { value: "", seq: op.lsn ?? 0n, tombstone: true });
         }
     }
+
+    // memtable -> frozen memtables -> on-disk tables (newest first)
+    async get(tio: TableIO, key: string) {
+        let mem = this.memTable.get(key);
+        for (let i = 0; !mem && i < this.immutables.length; i++) mem = this.immutables[i]!.table.get(key);
+        if (mem) return mem.tombstone ? undefined : mem.value;
+
+        const found = await tio.get(new TextEncoder().encode(key));
+        if (found && !found.tombstone) return new TextDecoder().decode(found.value);
+    }
+
+    // Live keys in [gte, lt) that start with `prefix`, newest version of each, across the
+    // memtables and every table level. Keys come out in table order, so ranges only read
+    // naturally under BYTES_ORDER; other orders scan everything and filter on `prefix`.
+    async *scan(tio: TableIO, { gte, lt, prefix, limit = Infinity, reverse = false }: ScanOptions = {}) {
+        let lo = gte;
+        let hi = lt;
+        if (prefix !== undefined && this.order === BYTES_ORDER) {
+            // a prefix is one contiguous range in byte order
+            if (lo === undefined || this.memOrder.compare(prefix, lo) > 0) lo = prefix;
+            const end = prefixEnd(prefix);
+            if (end !== undefined && (hi === undefined || this.memOrder.compare(end, hi) < 0)) hi = end;
+        }
+        if (limit <= 0 || (lo !== undefined && hi !== undefined && this.memOrder.compare(lo, hi) >= 0)) return;
+
+        const enc = new TextEncoder();
+        const dec = new TextDecoder();
+        const mem = [this.memTable, ...this.immutables.map((i) => i.table)].map((t) => memSource(t, lo, hi, reverse));
+        const tables = await tio.scan(
+            lo === undefined ? undefined : enc.encode(lo),
+            hi === undefined ? undefined : enc.encode(hi),
+            reverse,
+        );
+
+        try {
+            let n = 0;
+            for await (const rec of kWayMerger([...mem, ...tables.sources], { dropTombstones: true, order: this.order, reverse })) {
+                const key = dec.decode(rec.key);
+                if (prefix !== undefined && !key.startsWith(prefix)) continue;
+                yield { key, value: dec.decode(rec.value) };
+                if (++n >= limit) return;
+            }
+        } finally {
+            tables.release();
+        }
+    }
+
+    // Moves the memtable, holding everything up to `lsn`, onto the immutable list and
+    // starts a fresh one
+    freeze(lsn: bigint) {
+        const table = this.memTable;
+        table.freeze();
+        this.immutables.unshift({ table, lsn, bytes: this.memBytes });
+        this.memOrder = new MemOrder(this.order);
+        this.memTable = new BTree<string, MemEntry>(undefined, this.memOrder.compare);
+        this.memBytes = 0;
+    }
+
+    oldestImmutable(): Immutable | undefined {
+        return this.immutables[this.immutables.length - 1];
+    }
+
+    // Once its table is readable
+    retire(imm: Immutable) {
+        this.immutables = this.immutables.filter((i) => i !== imm);
+    }
+
+    immutablesFull() {
+        return this.immutables.length >= this.maxImmutables;
+    }
+
+    needsFlush() {
+        return this.memBytes >= this.maxBytes;
+    }
+
+    // Approximate bytes held in memory by the active memtable and the ones waiting to flush
+    memtableStats() {
+        return {
+            bytes: this.memBytes,
+            entries: this.memTable.size,
+            budget: this.maxBytes,
+            immutables: this.immutables.length,
+            immutableBytes: this.immutables.reduce((s, i) => s + i.bytes, 0),
+        };
+    }
 }
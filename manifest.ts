@@ -1,6 +1,11 @@
-import { WAL_Manager } from "./wal";
 import type { ManifestEntry, ManifestPage } from "./types";
-import { BLOCK, PREFIX, ENTRY_SIZE, HEADER_SIZE, CAP, MANIFEST_OFF, MANIFEST_RESULT, DatabaseError } from "./constants";
+import {
+    BLOCK, PREFIX, ENTRY_SIZE, HEADER_SIZE, CAP, HEADER_SIZE_V2, CAP_V2, MANIFEST_VERSION, MANIFEST_RESULT, DatabaseError,
+} from "./constants";
+
+function pageLayout(version: number) {
+    return version >= 2 ? { header: HEADER_SIZE_V2, cap: CAP_V2 } : { header: HEADER_SIZE, cap: CAP };
+}
 
 function encodeManifestEntry(me: ManifestEntry): Uint8Array {
     if (me.minPrefix.length !== PREFIX || me.maxPrefix.length !== PREFIX) {
@@ -19,21 +24,24 @@ function encodeManifestEntry(me: ManifestEntry): Uint8Array {
 }
 
 export function encodeManifestPage(mp: ManifestPage): Uint8Array {
-    if (mp.entries.length > CAP) {
-        throw new DatabaseError(MANIFEST_RESULT.TOO_MANY_ENTRIES, `too many entries: ${mp.entries.length} > cap ${CAP}`);
+    const version = mp.version ?? 1;
+    const { cap } = pageLayout(version);
+    if (mp.entries.length > cap) {
+        throw new DatabaseError(MANIFEST_RESULT.TOO_MANY_ENTRIES, `too many entries: ${mp.entries.length} > cap ${cap}`);
     }
     const buf = new Uint8Array(BLOCK);
     const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
     let o = 0;
 
-    const version = mp.version ?? 1;
-
     // Header
     v.setUint16(o, version, true); o += 2;
     v.setUint16(o, 0, true); o += 2; // reserved
     v.setBigUint64(o, mp.epoch, true); o += 8;
     v.setUint16(o, mp.entries.length, true); o += 2;
     v.setUint16(o, 0, true); o += 2; // reserved
+    if (version >= 2) {
+        v.setBigUint64(o, mp.next ?? 0n, true); o += 8;
+    }
 
     // Entries
     for (const e of mp.entries) {
@@ -63,17 +71,20 @@ export function decodeManifestPage(buf: Uint8Array): ManifestPage {
         version === 0 && epoch === 0n && count === 0;
     if (allZero) return { epoch: 0n, version: 0, entries: [] };
 
-    if (count > CAP) {
-        throw new DatabaseError(MANIFEST_RESULT.COUNT_EXCEEDS_CAP, `manifest count ${count} exceeds cap ${CAP}`);
+    const { header, cap } = pageLayout(version);
+    const next = version >= 2 ? v.getBigUint64(o, true) : 0n;
+
+    if (count > cap) {
+        throw new DatabaseError(MANIFEST_RESULT.COUNT_EXCEEDS_CAP, `manifest count ${count} exceeds cap ${cap}`);
     }
-    const need = HEADER_SIZE + count * ENTRY_SIZE;
+    const need = header + count * ENTRY_SIZE;
     if (need > buf.length) {
         throw new DatabaseError(MANIFEST_RESULT.CORRUPT, `manifest corrupt: need ${need}, have ${buf.length}`);
     }
 
     const entries: ManifestEntry[] = [];
     for (let i = 0; i < count; i++) {
-        const eOff = HEADER_SIZE + i * ENTRY_SIZE;
+        const eOff = header + i * ENTRY_SIZE;
         const ev = new DataView(buf.buffer, buf.byteOffset + eOff, ENTRY_SIZE);
         let eo = 0;
 
@@ -93,5 +104,24 @@ export function decodeManifestPage(buf: Uint8Array): ManifestPage {
             maxPrefix: new Uint8Array(maxPrefix),
         });
     }
-    return { epoch, version, entries };
+    return { epoch, version, next, entries };
+}
+
+export function manifestPagesFor(count: number) {
+    return Math.max(1, Math.ceil(count / CAP_V2));
+}
+
+// Split a manifest across v2 pages written at `offs` (one per page, see manifestPagesFor);
+// every page carries the same epoch so a partially rewritten chain is detectable.
+export function encodeManifestChain(mp: ManifestPage, offs: number[]): Uint8Array[] {
+    const out: Uint8Array[] = [];
+    for (let i = 0; i < offs.length; i++) {
+        out.push(encodeManifestPage({
+            epoch: mp.epoch,
+            version: MANIFEST_VERSION,
+            next: i + 1 < offs.length ? BigInt(offs[i + 1]!) : 0n,
+            entries: mp.entries.slice(i * CAP_V2, (i + 1) * CAP_V2),
+        }));
+    }
+    return out;
 }
\ No newline at end of file
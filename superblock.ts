@@ -1,32 +1,121 @@
 import { FileIO } from "./file-manager";
-import { BLOCK, SB_A_OFF, SB_B_OFF, SUPERBLOCK_RESULT, DatabaseError } from "./constants";
+import { BLOCK, SB_A_OFF, SB_B_OFF, SB_MAGIC, SB_VERSION, SB_FREE_CAP, KEY_ORDER_NAME_LEN, SUPERBLOCK_RESULT, DatabaseError } from "./constants";
+import type { Extent } from "./types";
+import { crc32c, log, LogLevel } from "./utils";
+
+// free_count value meaning "not tracked": rebuild the free map from the manifest
+const FREE_UNTRACKED = 0xffffffff;
 
 export type Superblock = {
     version: number;          // u16
     blockSize: number;        // u16
+    uuid: string;             // 16 bytes, v4+; "" for older superblocks
     epoch: bigint;            // u64 (monotonic)
     checkpointLSN: bigint;    // u64
     jHead: bigint;            // u64
     jTail: bigint;            // u64
+    manifestOff: bigint;      // u64, v3+: head page of the live manifest chain (0 = MANIFEST_OFF)
+    keyOrder: string;         // 32 bytes utf8, v5+: name of the KeyOrder tables are sorted by; "hash" before
+    freeExtents: Extent[] | null; // v2+: u32 count, then [startBlock u64][blocks u32]
 };
 
+type Decoded =
+    | { ok: true; sb: Superblock }
+    | { ok: false; foreign: boolean; reason: string };
+
+function uuidToBytes(uuid: string): Uint8Array {
+    const hex = uuid.replace(/-/g, "");
+    const out = new Uint8Array(16);
+    for (let i = 0; i < 16; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return out;
+}
+
+function bytesToUuid(b: Uint8Array): string {
+    const hex = Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// [magic u32][version u16][blockSize u16][uuid 16][epoch][checkpointLSN][jHead][jTail][manifestOff][keyOrder 32]
+// [free_count u32][extents...] ... [crc32c u32] in the last 4 bytes, over everything before it
 function encodeSB(sb: Superblock): Uint8Array {
     const buf = new Uint8Array(BLOCK);
     const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
     let o = 0;
-    // no magic/CRC to keep it minimal; add later if you want integrity
+    v.setUint32(o, SB_MAGIC, true); o += 4;
     v.setUint16(o, sb.version, true); o += 2;
     v.setUint16(o, sb.blockSize, true); o += 2;
+    buf.set(uuidToBytes(sb.uuid), o); o += 16;
     v.setBigUint64(o, sb.epoch, true); o += 8;
     v.setBigUint64(o, sb.checkpointLSN, true); o += 8;
     v.setBigUint64(o, sb.jHead, true); o += 8;
     v.setBigUint64(o, sb.jTail, true); o += 8;
+    v.setBigUint64(o, sb.manifestOff, true); o += 8;
+    buf.set(new TextEncoder().encode(sb.keyOrder), o); o += KEY_ORDER_NAME_LEN;
+
+    const free = sb.freeExtents;
+    if (!free || free.length > SB_FREE_CAP) {
+        if (free) log(LogLevel.warn, "Free map too large for superblock, will rebuild on load", { extents: free.length });
+        v.setUint32(o, FREE_UNTRACKED, true); o += 4;
+    } else {
+        v.setUint32(o, free.length, true); o += 4;
+        for (const e of free) {
+            v.setBigUint64(o, BigInt(e.startBlock), true); o += 8;
+            v.setUint32(o, e.blocks, true); o += 4;
+        }
+    }
+
+    v.setUint32(BLOCK - 4, crc32c(buf.subarray(0, BLOCK - 4)), true);
     return buf;
 }
 
-function decodeSB(buf: Uint8Array): Superblock | null {
-    if (buf.length < BLOCK) return null;
+function decodeFree(v: DataView, o: number, cap: number): Extent[] | null {
+    const count = v.getUint32(o, true); o += 4;
+    if (count === FREE_UNTRACKED || count > cap) return null;
+    const out: Extent[] = [];
+    for (let i = 0; i < count; i++) {
+        const startBlock = Number(v.getBigUint64(o, true)); o += 8;
+        const blocks = v.getUint32(o, true); o += 4;
+        out.push({ startBlock, blocks });
+    }
+    return out;
+}
+
+function decodeSB(buf: Uint8Array): Decoded {
+    if (buf.length < BLOCK) return { ok: false, foreign: false, reason: "short read" };
     const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    if (v.getUint32(0, true) !== SB_MAGIC) return decodeLegacySB(v);
+
+    if (crc32c(buf.subarray(0, BLOCK - 4)) !== v.getUint32(BLOCK - 4, true)) {
+        return { ok: false, foreign: false, reason: "checksum mismatch" };
+    }
+    let o = 4;
+    const version = v.getUint16(o, true); o += 2;
+    const blockSize = v.getUint16(o, true); o += 2;
+    const uuid = bytesToUuid(buf.subarray(o, o + 16)); o += 16;
+    const epoch = v.getBigUint64(o, true); o += 8;
+    const checkpointLSN = v.getBigUint64(o, true); o += 8;
+    const jHead = v.getBigUint64(o, true); o += 8;
+    const jTail = v.getBigUint64(o, true); o += 8;
+    const manifestOff = v.getBigUint64(o, true); o += 8;
+
+    if (version > SB_VERSION) return { ok: false, foreign: false, reason: `unsupported version ${version}` };
+    if (blockSize !== BLOCK) return { ok: false, foreign: false, reason: `block size ${blockSize} != ${BLOCK}` };
+
+    // v4 predates key orders; everything was hash ordered
+    let keyOrder = "hash";
+    if (version >= 5) {
+        const name = buf.subarray(o, o + KEY_ORDER_NAME_LEN);
+        const len = name.indexOf(0);
+        keyOrder = new TextDecoder().decode(len < 0 ? name : name.subarray(0, len));
+        o += KEY_ORDER_NAME_LEN;
+    }
+
+    const freeExtents = decodeFree(v, o, Math.floor((BLOCK - o - 4 - 4) / (8 + 4)));
+    return { ok: true, sb: { version, blockSize, uuid, epoch, checkpointLSN, jHead, jTail, manifestOff, keyOrder, freeExtents } };
+}
+
+// v1..v3 superblocks: no magic, no checksum, no uuid
+function decodeLegacySB(v: DataView): Decoded {
     let o = 0;
     const version = v.getUint16(o, true); o += 2;
     const blockSize = v.getUint16(o, true); o += 2;
@@ -35,13 +124,29 @@ function decodeSB(buf: Uint8Array): Superblock | null {
     const jHead = v.getBigUint64(o, true); o += 8;
     const jTail = v.getBigUint64(o, true); o += 8;
 
-    if (blockSize !== BLOCK || version === 0) return null;
-    return { version, blockSize, epoch, checkpointLSN, jHead, jTail };
+    if (blockSize !== BLOCK || version === 0 || version > 3) return { ok: false, foreign: true, reason: "bad magic" };
+
+    const manifestOff = version >= 3 ? v.getBigUint64(o, true) : 0n;
+    if (version >= 3) o += 8;
+
+    // v1 superblocks predate the free map
+    const freeExtents = version >= 2 ? decodeFree(v, o, Math.floor((BLOCK - o - 4) / (8 + 4))) : null;
+    return { ok: true, sb: { version, blockSize, uuid: "", epoch, checkpointLSN, jHead, jTail, manifestOff, keyOrder: "hash", freeExtents } };
 }
 
+type SuperblockUpdate = Partial<{
+    checkpointLSN: bigint;
+    jHead: bigint;
+    jTail: bigint;
+    epoch: bigint;
+    manifestOff: bigint;
+    freeExtents: Extent[];
+}>;
+
 export class SuperblockManager {
     private active: "A" | "B" = "A";
     private sb: Superblock | null = null;
+    private flips: Promise<void> = Promise.resolve();
 
     constructor(private file: FileIO) { }
 
@@ -49,17 +154,23 @@ export class SuperblockManager {
     async formatInitial({
         journalStart,
         epoch = 1n,
+        keyOrder = "hash",
     }: {
         journalStart: number;
         epoch?: bigint;
+        keyOrder?: string;
     }): Promise<void> {
         const base: Superblock = {
-            version: 1,
+            version: SB_VERSION,
             blockSize: BLOCK,
+            uuid: crypto.randomUUID(),
             epoch,
             checkpointLSN: 0n,
             jHead: BigInt(journalStart),
             jTail: BigInt(journalStart),
+            manifestOff: 0n,
+            keyOrder,
+            freeExtents: null,
         };
         const buf = encodeSB(base);
         await this.file.write(SB_A_OFF, buf);
@@ -69,50 +180,72 @@ export class SuperblockManager {
         this.sb = base;
     }
 
-    // Boot: read both and pick the newer epoch (if tie, pick B)
+    // Boot: read both, drop copies that fail verification, then pick the newer epoch (if tie, pick B)
     async load(): Promise<Superblock> {
-        const a = await this.file.read(SB_A_OFF, BLOCK);
-        const b = await this.file.read(SB_B_OFF, BLOCK);
-        const sa = decodeSB(a);
-        const sb = decodeSB(b);
+        const da = decodeSB(await this.file.read(SB_A_OFF, BLOCK));
+        const db = decodeSB(await this.file.read(SB_B_OFF, BLOCK));
+        const sa = da.ok ? da.sb : null;
+        const sb = db.ok ? db.sb : null;
+        const reason = (d: Decoded) => d.ok ? "ok" : d.reason;
+
+        if (!sa && !sb) {
+            if (!da.ok && da.foreign && !db.ok && db.foreign) {
+                throw new DatabaseError(SUPERBLOCK_RESULT.NOT_A_DATABASE, "not a database file: no superblock magic in either copy");
+            }
+            throw new DatabaseError(SUPERBLOCK_RESULT.NO_VALID_SUPERBLOCKS, `no valid superblocks (A: ${reason(da)}, B: ${reason(db)})`);
+        }
 
-        if (!sa && !sb) throw new DatabaseError(SUPERBLOCK_RESULT.NO_VALID_SUPERBLOCKS, "no valid superblocks");
         let chosen: Superblock;
+        let why: string;
         if (sa && sb) {
+            if (sa.uuid && sb.uuid && sa.uuid !== sb.uuid) {
+                throw new DatabaseError(SUPERBLOCK_RESULT.UUID_MISMATCH, `superblock copies belong to different databases (${sa.uuid} vs ${sb.uuid})`);
+            }
             if (sb.epoch > sa.epoch) {
                 chosen = sb;
                 this.active = "B";
+                why = "newer epoch";
             } else if (sa.epoch > sb.epoch) {
                 chosen = sa;
                 this.active = "A";
+                why = "newer epoch";
             } else {
                 // epochs equal: prefer B to handle partial updates symmetrically
                 chosen = sb;
                 this.active = "B";
+                why = "epochs equal";
             }
         } else {
             chosen = (sa ?? sb)!;
             this.active = sa ? "A" : "B";
+            why = sa ? `B rejected: ${reason(db)}` : `A rejected: ${reason(da)}`;
         }
+        log(sa && sb ? LogLevel.info : LogLevel.warn, "Superblock loaded", { copy: this.active, why, epoch: chosen.epoch, uuid: chosen.uuid });
         this.sb = chosen;
         return chosen;
     }
 
-    // Persist new checkpoint/journal pointers via A/B flip
-    async checkpoint(update: Partial<{
-        checkpointLSN: bigint;
-        jHead: bigint;
-        jTail: bigint;
-        epoch: bigint
-    }>): Promise<void> {
+    // Persist new checkpoint/journal pointers via A/B flip. Flips run one at a time, in call
+    // order (WAL syncs and background flushes both publish), each on top of the last.
+    checkpoint(update: SuperblockUpdate): Promise<void> {
+        const flip = this.flips.then(() => this.flip(update));
+        this.flips = flip.catch(() => { });
+        return flip;
+    }
+
+    private async flip(update: SuperblockUpdate) {
         if (!this.sb) throw new DatabaseError(SUPERBLOCK_RESULT.NOT_INITIALIZED, "call load() or formatInitial() first");
         const next: Superblock = {
-            version: this.sb.version,
+            version: SB_VERSION, // older superblocks are upgraded on first write
             blockSize: BLOCK,
-            epoch: update.epoch ?? this.sb.epoch,
+            uuid: this.sb.uuid || crypto.randomUUID(),
+            epoch: update.epoch ?? this.sb.epoch + 1n, // each flip must win over the copy it replaces
             checkpointLSN: update.checkpointLSN ?? this.sb.checkpointLSN,
             jHead: update.jHead ?? this.sb.jHead,
             jTail: update.jTail ?? this.sb.jTail,
+            manifestOff: update.manifestOff ?? this.sb.manifestOff,
+            keyOrder: this.sb.keyOrder,
+            freeExtents: update.freeExtents ?? this.sb.freeExtents,
         };
         const buf = encodeSB(next);
         const targetOff = this.active === "A" ? SB_B_OFF : SB_A_OFF;
@@ -1,26 +1,37 @@
 import BTree from "./b_tree/b_tree.ts";
 import { BLOCK } from "./constants";
 import { alignUp, type FileIO } from "./file-manager";
-import { MANIFEST_OFF } from "./constants";
-import type { Extent, IndexEntry, TableMeta, ManifestEntry, ManifestPage } from "./types";
-import { extractSortKey16, cmp16, lt16, gt16, log, LogLevel } from "./utils";
-import { encodeManifestPage, decodeManifestPage } from "./manifest";
-import { PREFIX, ENTRY_SIZE, TABLE_RESULT, DatabaseError } from "./constants";
+import { MANIFEST_OFF, TABLES_OFF } from "./constants";
+import { ExtentAllocator } from "./allocator";
+import type { SuperblockManager } from "./superblock";
+import type { Extent, IndexEntry, TableMeta, TableHead, ManifestEntry, ManifestPage, MemEntry } from "./types";
+import { cmp16, crc32c, lt16, gt16, log, LogLevel } from "./utils";
+import { encodeManifestPage, decodeManifestPage, encodeManifestChain, manifestPagesFor } from "./manifest";
+import { PREFIX, MANIFEST_VERSION, REC_TOMBSTONE, TABLE_RESULT, MANIFEST_RESULT, DatabaseError } from "./constants";
+import { CODEC, CODEC_INV, type Codec } from "./constants";
+import { BLOCK_PREFIXED, RESTART_INTERVAL, BLOOM_BITS_PER_KEY } from "./constants";
+import { BLOCK_CACHE_BYTES, HEAD_CACHE_BYTES } from "./constants";
+import { codecAvailable, compress, decompress } from "./compression";
+import { bloomHash, bloomMayContain, buildBloom } from "./bloom";
+import { LRUCache } from "./lru-cache";
+import { HASH_ORDER, resolveKeyOrder, type KeyOrder } from "./key-order";
+import type { Cur, Source } from "./k_way_merge_heaper";
 
 export function decodeIndex(buf: Uint8Array): IndexEntry[] {
     const out: IndexEntry[] = [];
     const dv = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
     let o = 0;
-    while (o + 2 + 8 + 4 <= buf.length) {
+    while (o + 2 + 8 + 4 + 4 <= buf.length) {
         const klen = dv.getUint16(o, true); o += 2;
         const off = Number(dv.getBigUint64(o, true)); o += 8;
         const len = dv.getUint32(o, true); o += 4;
+        const crc = dv.getUint32(o, true); o += 4;
 
         if (o + klen > buf.length) break; // tolerate padded tail or truncated view
         const key = buf.subarray(o, o + klen);
         o += klen;
 
-        out.push({ firstKey: new Uint8Array(key), off, len });
+        out.push({ firstKey: new Uint8Array(key), off, len, crc });
     }
     return out;
 }
@@ -42,13 +53,14 @@ export function encodeTableMeta(meta: TableMeta): Uint8Array {
         4 + // blockSize
         8 + // indexOff
         4 + // indexLen
+        4 + // indexCrc
         4 + // entryCount
         PREFIX + // minKey
         PREFIX + // maxKey
         4; // extents_count
 
     const extentsLen = extCnt * (8 + 4); // startBlock u64 + blocks u32
-    const total = headerLen + idBytes.length + extentsLen;
+    const total = headerLen + idBytes.length + extentsLen + 1 /*codec*/ + 1 /*blockFormat*/ + 8 + 4 + 4 /*bloom*/;
 
     const buf = new Uint8Array(total);
     const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
@@ -65,6 +77,7 @@ export function encodeTableMeta(meta: TableMeta): Uint8Array {
 
     v.setBigUint64(o, BigInt(meta.indexOff), true); o += 8;
     v.setUint32(o, meta.indexLen >>> 0, true); o += 4;
+    v.setUint32(o, meta.indexCrc >>> 0, true); o += 4;
 
     v.setUint32(o, meta.entryCount >>> 0, true); o += 4;
 
@@ -82,6 +95,13 @@ export function encodeTableMeta(meta: TableMeta): Uint8Array {
         v.setUint32(o, e.blocks >>> 0, true); o += 4;
     }
 
+    v.setUint8(o, CODEC[meta.codec]); o += 1;
+    v.setUint8(o, meta.blockFormat); o += 1;
+
+    v.setBigUint64(o, BigInt(meta.bloomOff), true); o += 8;
+    v.setUint32(o, meta.bloomLen >>> 0, true); o += 4;
+    v.setUint32(o, meta.bloomCrc >>> 0, true); o += 4;
+
     return buf;
 }
 
@@ -101,6 +121,7 @@ export function decodeTableMeta(buf: Uint8Array): TableMeta {
 
     const indexOff = Number(v.getBigUint64(o, true)); o += 8;
     const indexLen = v.getUint32(o, true); o += 4;
+    const indexCrc = v.getUint32(o, true); o += 4;
 
     const entryCount = v.getUint32(o, true); o += 4;
 
@@ -122,6 +143,18 @@ export function decodeTableMeta(buf: Uint8Array): TableMeta {
         extents.push({ startBlock, blocks });
     }
 
+    const codecId = v.getUint8(o); o += 1;
+    const codec = CODEC_INV[codecId];
+    if (!codec) throw new DatabaseError(TABLE_RESULT.UNSUPPORTED_CODEC, `decodeTableMeta: unknown codec ${codecId}`);
+    const blockFormat = v.getUint8(o); o += 1;
+    if (blockFormat !== BLOCK_PREFIXED) {
+        throw new DatabaseError(TABLE_RESULT.UNSUPPORTED_FORMAT, `decodeTableMeta: table ${id} has unknown block format ${blockFormat}`);
+    }
+
+    const bloomOff = Number(v.getBigUint64(o, true)); o += 8;
+    const bloomLen = v.getUint32(o, true); o += 4;
+    const bloomCrc = v.getUint32(o, true); o += 4;
+
     return {
         id,
         level,
@@ -134,22 +167,271 @@ export function decodeTableMeta(buf: Uint8Array): TableMeta {
         blockSize,
         indexOff,
         indexLen,
+        indexCrc,
         entryCount,
+        codec,
+        blockFormat,
+        bloomOff,
+        bloomLen,
+        bloomCrc,
     };
 }
 
+export function concat(parts: Uint8Array[]) {
+    const total = parts.reduce((s, p) => s + p.length, 0);
+    const out = new Uint8Array(total);
+    let o = 0;
+    for (const p of parts) { out.set(p, o); o += p.length; }
+    return out;
+}
+
+// Accumulates records (already in table order) into BLOCK_PREFIXED data blocks plus their index,
+// and key hashes for the table's Bloom filter (skipped when bloomBitsPerKey is 0).
+// Uncompressed blocks are padded to BLOCK; compressed ones are packed back to back.
+// TableIO.writeTable turns a finished builder into a table blob.
+//
+// Record: [shared u16][unshared u16][vlen u32][flags u8][seq u64][key suffix][value]
+// Trailer: [restart offsets u32 * n][interval u16][n u16], always the last bytes of the block
+export class TableBuilder {
+    blocks: Uint8Array[] = [];
+    index: IndexEntry[] = [];
+    minPrefix: Uint8Array | null = null;
+    maxPrefix: Uint8Array | null = null;
+    seqMin: bigint | null = null;
+    seqMax: bigint | null = null;
+    entryCount = 0;
+    keyHashes: number[] = [];
+
+    private parts: Uint8Array[] = [];
+    private curSize = 2;
+    private countInBlock = 0;
+    private firstKeyThisBlock: Uint8Array | null = null;
+    private prevKey: Uint8Array = new Uint8Array(0);
+    private restarts: number[] = [];
+    private blockBytes = 0;
+
+    constructor(
+        readonly codec: Codec = "none",
+        readonly order: KeyOrder = HASH_ORDER,
+        readonly bloomBitsPerKey: number = 0,
+    ) { }
+
+    // Approximate blob size so far, used to split compaction output
+    get sizeBytes() {
+        return this.blockBytes + this.curSize + Math.ceil(this.keyHashes.length * this.bloomBitsPerKey / 8);
+    }
+
+    private trailerSize(restarts: number) {
+        return restarts * 4 + 2 + 2;
+    }
+
+    // Bytes `kb` shares with the previous key; 0 at a restart point
+    private sharedWith(kb: Uint8Array) {
+        if (this.countInBlock % RESTART_INTERVAL === 0) return 0;
+        const max = Math.min(kb.length, this.prevKey.length);
+        let n = 0;
+        while (n < max && kb[n] === this.prevKey[n]) n++;
+        return n;
+    }
+
+    add(kb: Uint8Array, vb: Uint8Array, seq: bigint, flags: number) {
+        const recLen = (shared: number) => 2 + 2 + 4 + 1 + 8 + kb.length - shared + vb.length;
+        const restartsAfter = () => this.restarts.length + (this.countInBlock % RESTART_INTERVAL === 0 ? 1 : 0);
+
+        let shared = this.sharedWith(kb);
+        if (this.curSize + recLen(shared) + this.trailerSize(restartsAfter()) > BLOCK) {
+            this.flushBlock();
+            shared = 0;
+        }
+
+        if (!this.firstKeyThisBlock) this.firstKeyThisBlock = kb;
+        if (this.countInBlock % RESTART_INTERVAL === 0) this.restarts.push(this.curSize);
+
+        const recHdr = new Uint8Array(2 + 2 + 4 + 1 + 8);
+        const dv = new DataView(recHdr.buffer);
+        dv.setUint16(0, shared, true);
+        dv.setUint16(2, kb.length - shared, true);
+        dv.setUint32(4, vb.length, true);
+        dv.setUint8(8, flags);
+        dv.setBigUint64(9, seq, true);
+
+        this.parts.push(recHdr, kb.subarray(shared), vb);
+        this.curSize += recLen(shared);
+        this.prevKey = kb;
+        this.countInBlock++;
+        this.entryCount++;
+
+        if (this.bloomBitsPerKey > 0) this.keyHashes.push(bloomHash(kb));
+
+        const p = this.order.prefix(kb);
+        if (!this.minPrefix || lt16(p, this.minPrefix)) this.minPrefix = p;
+        if (!this.maxPrefix || gt16(p, this.maxPrefix)) this.maxPrefix = p;
+        if (this.seqMin === null || seq < this.seqMin) this.seqMin = seq;
+        if (this.seqMax === null || seq > this.seqMax) this.seqMax = seq;
+    }
+
+    flushBlock() {
+        if (this.countInBlock === 0) return;
+        const hdr = new Uint8Array(2);
+        new DataView(hdr.buffer).setUint16(0, this.countInBlock, true);
+        const trailer = new Uint8Array(this.trailerSize(this.restarts.length));
+        const tv = new DataView(trailer.buffer);
+        this.restarts.forEach((off, i) => tv.setUint32(i * 4, off, true));
+        tv.setUint16(trailer.length - 4, RESTART_INTERVAL, true);
+        tv.setUint16(trailer.length - 2, this.restarts.length, true);
+
+        const body = concat([hdr, ...this.parts]);
+        const stored = (() => {
+            if (this.codec !== "none") return compress(this.codec, concat([body, trailer]));
+            // padding goes between the records and the trailer
+            const out = new Uint8Array(alignUp(body.length + trailer.length, BLOCK));
+            out.set(body, 0);
+            out.set(trailer, out.length - trailer.length);
+            return out;
+        })();
+
+        // The checksum covers the bytes as stored, so corruption is caught before decompressing
+        this.index.push({ firstKey: this.firstKeyThisBlock!, off: this.blockBytes, len: stored.length, crc: crc32c(stored) });
+        this.blocks.push(stored);
+        this.blockBytes += stored.length;
+
+        // reset
+        this.parts = [];
+        this.curSize = 2;
+        this.countInBlock = 0;
+        this.firstKeyThisBlock = null;
+        this.prevKey = new Uint8Array(0);
+        this.restarts = [];
+    }
+}
+
+function verifyChecksum(buf: Uint8Array, expected: number, what: string) {
+    const got = crc32c(buf);
+    if (got !== expected) {
+        log(LogLevel.err, "Table checksum mismatch", { what, expected, got });
+        throw new DatabaseError(TABLE_RESULT.CHECKSUM_MISMATCH, `${what}: checksum mismatch`);
+    }
+}
+
+// Blocks a table blob occupies
+export function extentOf(e: ManifestEntry): Extent {
+    return { startBlock: Number(e.metaOff) / BLOCK, blocks: alignUp(e.metaLen, BLOCK) / BLOCK };
+}
+
+// Rough resident size of a cached head
+function headBytes(h: TableHead) {
+    return BLOCK + (h.bloom?.length ?? 0) + h.index.reduce((s, e) => s + e.firstKey.length + 32, 0);
+}
+
+// Decompressed blocks, shared by every reader of a TableIO; keyed `${table id}:${block offset}`
+export type BlockCache = LRUCache<string, Uint8Array>;
+
+function pageExtent(off: number): Extent {
+    return { startBlock: off / BLOCK, blocks: 1 };
+}
+
+// Every record of a baseline table: [meta block][index][blocks], with plain
+// [klen u16][vlen u32][key][value] records and no checksums anywhere
+async function readBaselineTable(file: FileIO, e: ManifestEntry) {
+    const meta = await file.read(Number(e.metaOff), BLOCK);
+    const mv = new DataView(meta.buffer, meta.byteOffset, meta.byteLength);
+    const indexOff = Number(mv.getBigUint64(32, true));
+    const indexLen = mv.getUint32(40, true);
+    const dataStart = indexOff + alignUp(indexLen, 8);
+
+    const index = await file.read(indexOff, indexLen);
+    const iv = new DataView(index.buffer, index.byteOffset, index.byteLength);
+    const out: { key: Uint8Array; value: Uint8Array }[] = [];
+    for (let o = 0; o + 2 + 8 + 4 <= index.length;) {
+        const klen = iv.getUint16(o, true);
+        const off = Number(iv.getBigUint64(o + 2, true));
+        const len = iv.getUint32(o + 10, true);
+        o += 2 + 8 + 4 + klen;
+
+        const block = await file.read(dataStart + off, len);
+        const bv = new DataView(block.buffer, block.byteOffset, block.byteLength);
+        let p = 2;
+        for (let n = bv.getUint16(0, true); n > 0; n--) {
+            const kl = bv.getUint16(p, true);
+            const vl = bv.getUint32(p + 2, true);
+            p += 2 + 4;
+            out.push({ key: block.slice(p, p + kl), value: block.slice(p + kl, p + kl + vl) });
+            p += kl + vl;
+        }
+    }
+    return out;
+}
+
 export class TableIO {
     private manifest: ManifestPage = { epoch: 0n, entries: [] };
-    private tableTail: number = MANIFEST_OFF + BLOCK;
-    private map = new Map<BigInt, { table: TableMeta, index: IndexEntry[] }>()
+    private pages: number[] = [MANIFEST_OFF]; // manifest chain, head page first
+    private alloc = new ExtentAllocator();
+    private heads: LRUCache<bigint, TableHead>;   // by metaOff
+    private blocks: BlockCache;
+    private ids = new Map<bigint, string>();      // metaOff -> table id, for evicting a dropped table's blocks
+    private liveIds = new Set<string>();          // ids in `ids`; only their blocks are cached
+    private pins = 0;               // open scans
+    readonly stats = {
+        bloomSkips: 0,              // table lookups a Bloom filter answered without reading a block
+    };
+    private deferred: Extent[] = []; // dropped while pinned; free on disk, not reused until unpinned
+    // Settled against the superblock by formatInitial/load
+    order: KeyOrder;
+
+    // `codec` applies to every level without an entry in `levelCodecs`.
+    // `keyOrder` must match the order the database was formatted with.
+    // `bloomBitsPerKey` sizes the filters of new tables; 0 writes none.
+    constructor(
+        private file: FileIO,
+        private sbm: SuperblockManager,
+        private opts: {
+            codec?: Codec;
+            levelCodecs?: (Codec | undefined)[];
+            keyOrder?: KeyOrder;
+            bloomBitsPerKey?: number;
+            blockCacheBytes?: number;
+            headCacheBytes?: number;
+        } = {},
+    ) {
+        this.order = opts.keyOrder ?? HASH_ORDER;
+        this.heads = new LRUCache(opts.headCacheBytes ?? HEAD_CACHE_BYTES, headBytes);
+        this.blocks = new LRUCache(opts.blockCacheBytes ?? BLOCK_CACHE_BYTES, (b) => b.length);
+        for (const c of [opts.codec, ...(opts.levelCodecs ?? [])]) {
+            if (c && !codecAvailable(c)) {
+                throw new DatabaseError(TABLE_RESULT.UNSUPPORTED_CODEC, `codec ${c} is not available in this runtime`);
+            }
+        }
+    }
 
-    constructor(private file: FileIO) { }
+    codecFor(level: number): Codec {
+        return this.opts.levelCodecs?.[level] ?? this.opts.codec ?? "none";
+    }
+
+    // A builder for a new table at `level`, compressed the way that level is configured
+    builder(level: number) {
+        return new TableBuilder(this.codecFor(level), this.order, this.opts.bloomBitsPerKey ?? BLOOM_BITS_PER_KEY);
+    }
+
+    // Table region: everything after the manifest page up to the end of the file
+    private async region(): Promise<Extent> {
+        const fileBlocks = Math.floor(await this.file.size() / BLOCK);
+        return { startBlock: TABLES_OFF / BLOCK, blocks: Math.max(0, fileBlocks - TABLES_OFF / BLOCK) };
+    }
+
+    get freeBlocks() {
+        return this.alloc.freeBlocks;
+    }
 
     initFrom(mp: ManifestPage) {
         this.manifest = mp;
     }
 
-    async formatInitial({ version = 1, epoch = 1n }) {
+    private settleOrder() {
+        this.order = resolveKeyOrder(this.sbm.current()?.keyOrder ?? HASH_ORDER.name, this.opts.keyOrder);
+    }
+
+    async formatInitial({ version = MANIFEST_VERSION, epoch = 1n }) {
+        this.settleOrder();
         const mp: ManifestPage = {
             epoch,
             version,
@@ -159,164 +441,177 @@ export class TableIO {
         await this.file.write(MANIFEST_OFF, buf);
         await this.file.fsync();
         this.manifest = mp;
-    }
 
-    get manifestEntryTail() {
-        return MANIFEST_OFF + 16 + this.manifest.entries.length * 48;
+        this.alloc = new ExtentAllocator([await this.region()]);
+        await this.sbm.checkpoint({ freeExtents: this.alloc.extents });
     }
 
+    get entries(): readonly ManifestEntry[] {
+        return this.manifest.entries;
+    }
 
     async load() {
-        const mp_buf = await this.file.read(MANIFEST_OFF, BLOCK);
+        this.settleOrder();
+        // The superblock names the live chain; 0 means the fixed page at MANIFEST_OFF (pre-v3 files)
+        const root = Number(this.sbm.current()?.manifestOff ?? 0n) || MANIFEST_OFF;
+        const mp_buf = await this.file.read(root, BLOCK);
         // If file is empty here, you might get an all-zero page; handle as empty manifest.
         const mp = decodeManifestPage(mp_buf);
+        this.pages = [root];
+
+        // Only the baseline wrote v1 pages; its tables are rewritten once the manifest is loaded
+        const baseline = (mp.version ?? 1) < MANIFEST_VERSION && mp.entries.length > 0;
+
+        // v1 files are a single page; v2 pages chain through `next`
+        for (let off = mp.next ?? 0n; off !== 0n;) {
+            const page = decodeManifestPage(await this.file.read(Number(off), BLOCK));
+            if (page.epoch !== mp.epoch) {
+                throw new DatabaseError(MANIFEST_RESULT.CORRUPT, `manifest page at ${off} has epoch ${page.epoch}, chain head has ${mp.epoch}`);
+            }
+            this.pages.push(Number(off));
+            mp.entries.push(...page.entries);
+            off = page.next ?? 0n;
+        }
         this.manifest = mp;
 
-        this.manifest.entries.forEach((e) => {
-            this.tableTail += alignUp(e.metaLen, BLOCK)
-        })
+        // A free map is committed with the manifest it belongs to, but one from an older
+        // layout may not be; tables and pages the manifest says are live always win.
+        const used = this.manifest.entries.map(extentOf)
+            .concat(this.pages.filter((off) => off !== MANIFEST_OFF).map(pageExtent));
+        const persisted = this.sbm.current()?.freeExtents;
+        if (persisted) {
+            this.alloc = new ExtentAllocator(persisted);
+            for (const e of used) this.alloc.take(e);
+        } else {
+            log(LogLevel.info, "No persisted free map, rebuilding from manifest");
+            this.alloc = ExtentAllocator.fromUsed(await this.region(), used);
+        }
+        if (baseline) await this.migrateBaseline();
         return this;
     }
-    private async updateManifest() {
-        const buf = encodeManifestPage(this.manifest);
-        await this.file.write(MANIFEST_OFF, buf);
-        await this.file.fsync();
-    }
-    private async addEntry(e: ManifestEntry) {
-        if (this.manifest.entries.length >= Math.floor((BLOCK - 16) / 48)) throw new DatabaseError(TABLE_RESULT.MANIFEST_FULL, "Ran out of manifest entries")
-        this.manifest.entries.push(e)
-        this.updateManifest()
-        await this.file.write(this.manifestEntryTail, encodeManifestEntry(e))
-        await this.file.fsync()
-    }
 
-    private async requestTable(
-        level: number,
-        size: number,
-        minPrefix: Uint8Array,
-        maxPrefix: Uint8Array,
-    ) {
-        const fileBytes = await this.file.size();
-        const left = fileBytes - this.tableTail;
-        if (size > left) throw new DatabaseError(TABLE_RESULT.NEEDS_COMPACTION, "Cannot add another table. Needs compaction");
-
-        const metaOff = this.tableTail;
-        const metaLen = size; // length in bytes of the whole table blob you will write
-
-        const e: ManifestEntry = {
-            level,
-            metaOff: BigInt(metaOff),
-            metaLen,
-            minPrefix,
-            maxPrefix,
-        };
-        await this.addEntry(e);
+    // Merge the baseline tables into one level-0 table in the current format, published in a
+    // single manifest edit. Until it lands the v1 page is still live, so a crash retries it.
+    private async migrateBaseline() {
+        const legacy = this.manifest.entries.slice();
+        const dec = new TextDecoder();
+        // later entries were flushed later; their values win
+        const latest = new Map<string, { key: Uint8Array; value: Uint8Array }>();
+        for (const e of legacy) {
+            for (const r of await readBaselineTable(this.file, e)) latest.set(dec.decode(r.key), r);
+        }
 
-        // Reserve bytes by bumping the tail now (so next placement won’t overlap)
-        this.tableTail = alignUp(metaOff + metaLen, BLOCK);
-        return e;
+        // baseline records predate sequence numbers and deletes: seq 0 loses to anything replayed
+        const b = this.builder(0);
+        const records = [...latest.values()].sort((x, y) => this.order.compare(x.key, y.key));
+        for (const r of records) b.add(r.key, r.value, 0n, 0);
+        const entry = await this.writeTable(0, b);
+        await this.applyEdit({ added: entry ? [entry] : [], removed: legacy });
+        log(LogLevel.warn, "Upgraded baseline tables", { tables: legacy.length, entries: records.length });
     }
 
-    concat(parts: Uint8Array[]) {
-        const total = parts.reduce((s, p) => s + p.length, 0);
-        const out = new Uint8Array(total);
-        let o = 0;
-        for (const p of parts) { out.set(p, o); o += p.length; }
-        return out;
-    };
+    // Swap manifest entries as one crash-atomic step: `removed` (matched by metaOff) go,
+    // `added` are appended. The new chain is written to fresh pages, then a single superblock
+    // flip publishes it together with the free map; the old chain is never overwritten.
+    async applyEdit({ added = [], removed = [] }: { added?: ManifestEntry[]; removed?: ManifestEntry[] }) {
+        const gone = new Set(removed.map((e) => e.metaOff));
+        const entries = this.manifest.entries.filter((e) => !gone.has(e.metaOff)).concat(added);
+        const next: ManifestPage = { epoch: this.manifest.epoch + 1n, version: MANIFEST_VERSION, entries };
+
+        // Until the flip nothing on disk refers to the new pages or `added` tables, so a
+        // failure before it hands their space back instead of leaking it into the free map
+        const pages: number[] = [];
+        try {
+            for (let i = 0; i < manifestPagesFor(entries.length); i++) {
+                const ext = this.alloc.alloc(1);
+                if (!ext) throw new DatabaseError(TABLE_RESULT.MANIFEST_FULL, "Ran out of space for manifest pages");
+                pages.push(ext.startBlock * BLOCK);
+            }
+            const bufs = encodeManifestChain(next, pages);
+            for (let i = 0; i < bufs.length; i++) {
+                await this.file.write(pages[i]!, bufs[i]!);
+            }
+            await this.file.fsync();
+        } catch (e) {
+            for (const off of pages) this.alloc.release(pageExtent(off));
+            this.discard(added);
+            throw e;
+        }
 
-    // Flush WAL
-    // Request a table of N size
-    //
+        // The old chain and dropped tables become free in the same flip that retires them.
+        // An open scan may still read dropped tables, so their blocks stay out of reuse until it ends.
+        const after = new ExtentAllocator(this.alloc.extents);
+        for (const off of this.pages) if (off !== MANIFEST_OFF) after.release(pageExtent(off));
+        if (this.pins > 0) this.deferred.push(...removed.map(extentOf));
+        else for (const e of removed) after.release(extentOf(e));
+        const persisted = new ExtentAllocator(after.extents);
+        for (const e of this.deferred) persisted.release(e);
+        await this.sbm.checkpoint({ manifestOff: BigInt(pages[0]!), freeExtents: persisted.extents });
+
+        this.manifest = next;
+        this.pages = pages;
+        this.alloc = after;
+        for (const off of gone) this.evict(off);
+        log(LogLevel.debug, "Manifest updated", { added: added.length, removed: removed.length, entries: entries.length, epoch: next.epoch });
+    }
 
-    async flushWAL(tree: BTree<string, string>) {
-        log(LogLevel.info, "Starting table flush", { entryCount: tree.size });
-        let enc = new TextEncoder()
-        const blocks: Uint8Array[] = [];
-        type IndexEntryLocal = { firstKey: Uint8Array; off: number; len: number };
-        let index: IndexEntryLocal[] = [];
-
-        let countInBlock = 0;
-        let parts: Uint8Array[] = [];
-        let curSize = 2;
-        let firstKeyThisBlock: Uint8Array | null = null;
-
-        let minPrefix: Uint8Array | null = null;
-        let maxPrefix: Uint8Array | null = null;
-        let entryCount = 0;
-
-        const pushRecord = (kb: Uint8Array, vb: Uint8Array) => {
-            const recHdr = new Uint8Array(2 + 4);
-            const dv = new DataView(recHdr.buffer);
-            dv.setUint16(0, kb.length, true);
-            dv.setUint32(2, vb.length, true);
-            const recLen = recHdr.length + kb.length + vb.length;
-
-            if (curSize + recLen > BLOCK) flushBlock();
-
-            if (!firstKeyThisBlock) firstKeyThisBlock = kb;
-
-            parts.push(recHdr, kb, vb);
-            curSize += recLen;
-            countInBlock++;
-            entryCount++;
-
-            const p = extractSortKey16(kb);
-            if (!minPrefix || lt16(p, minPrefix)) minPrefix = p;
-            if (!maxPrefix || gt16(p, maxPrefix)) maxPrefix = p;
+    // Keep the current tables' blocks out of reuse until the returned release is called,
+    // so reads running alongside compaction never see a dropped table's space rewritten
+    private pin() {
+        this.pins++;
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            if (--this.pins > 0) return;
+            for (const e of this.deferred) this.alloc.release(e);
+            this.deferred = [];
         };
+    }
 
-        const flushBlock = () => {
-            if (countInBlock === 0) return;
-            const hdr = new Uint8Array(2);
-            new DataView(hdr.buffer).setUint16(0, countInBlock, true);
-            const raw = this.concat([hdr, ...parts]);
-            const padded = (() => {
-                const need = alignUp(raw.length, BLOCK);
-                if (need === raw.length) return raw;
-                const out = new Uint8Array(need);
-                out.set(raw, 0);
-                return out;
-            })();
-
-            const off = blocks.reduce((s, b) => s + b.length, 0);
-            blocks.push(padded);
-            index.push({ firstKey: firstKeyThisBlock!, off, len: padded.length });
-
-            // reset
-            parts = [];
-            curSize = 2;
-            countInBlock = 0;
-            firstKeyThisBlock = null;
-        };
+    // Forget a dropped table's head and blocks
+    private evict(metaOff: bigint) {
+        this.heads.delete(metaOff);
+        const id = this.ids.get(metaOff);
+        if (id === undefined) return;
+        this.ids.delete(metaOff);
+        this.liveIds.delete(id);
+        this.blocks.deleteWhere((k) => k.startsWith(`${id}:`));
+    }
 
-        tree.toArray().sort(([k, v], [k2, v2]) => {
-            const k_b = enc.encode(k)
-            const k2_b = enc.encode(k2)
-            const k1_sorter = extractSortKey16(k_b)
-            const k2_sorter = extractSortKey16(k2_b)
-            return cmp16(k1_sorter, k2_sorter)
-        }).forEach(([k, v]) => {
-            const kb = enc.encode(k)
-            const vb = enc.encode(v)
-            pushRecord(kb, vb)
-        })
+    cacheStats() {
+        return { blocks: this.blocks.stats(), heads: this.heads.stats() };
+    }
 
-        flushBlock();
+    // Give back the space of tables that were written but never made live
+    discard(entries: ManifestEntry[]) {
+        for (const e of entries) this.alloc.release(extentOf(e));
+    }
 
-        if (blocks.length === 0) return; // nothing to flush
+    // Reserve file space for a table blob; the table is not live until applyEdit
+    private reserve(size: number): Extent {
+        const ext = this.alloc.alloc(alignUp(size, BLOCK) / BLOCK);
+        if (!ext) throw new DatabaseError(TABLE_RESULT.NEEDS_COMPACTION, "Cannot add another table. Needs compaction");
+        return ext;
+    }
 
+    // Write a finished builder as one table blob at `level` and return its manifest entry.
+    // Returns null for an empty builder.
+    async writeTable(level: number, b: TableBuilder): Promise<ManifestEntry | null> {
+        b.flushBlock();
+        if (b.blocks.length === 0) return null;
 
         const indexParts: Uint8Array[] = [];
-        for (const e of index) {
-            const hdr = new Uint8Array(2 + 8 + 4);
+        for (const e of b.index) {
+            const hdr = new Uint8Array(2 + 8 + 4 + 4);
             const dv = new DataView(hdr.buffer);
             dv.setUint16(0, e.firstKey.length, true);
             dv.setBigUint64(2, BigInt(e.off), true); // off is relative to dataStart
             dv.setUint32(10, e.len, true);
+            dv.setUint32(14, e.crc, true);
             indexParts.push(hdr, e.firstKey);
         }
-        const indexRaw = this.concat(indexParts);
+        const indexRaw = concat(indexParts);
         const indexBuf = (() => {
             const need = alignUp(indexRaw.length, 8);
             const out = new Uint8Array(need);
@@ -326,67 +621,101 @@ export class TableIO {
         const indexLen = indexRaw.length;
         const indexLenPadded = indexBuf.length;
 
-        const blockBytes = blocks.reduce((s, b) => s + b.length, 0);
-        const sizeBytes = BLOCK + indexLenPadded + blockBytes; // total table blob size
+        const bloom = b.bloomBitsPerKey > 0 ? buildBloom(b.keyHashes, b.bloomBitsPerKey) : new Uint8Array(0);
+
+        const blockBytes = b.blocks.reduce((s, blk) => s + blk.length, 0);
+        const sizeBytes = BLOCK + indexLenPadded + blockBytes + bloom.length; // total table blob size
 
         // Reserve space in file for the full blob
-        const entry = await this.requestTable(
-            0,
-            sizeBytes,
-            minPrefix ?? new Uint8Array(16),
-            maxPrefix ?? new Uint8Array(16),
-        );
-        const metaOff = Number(entry.metaOff);
+        const ext = this.reserve(sizeBytes);
+        const metaOff = ext.startBlock * BLOCK;
         const indexOff = metaOff + BLOCK;
+        const bloomOff = indexOff + indexLenPadded + blockBytes;
+
+        const minPrefix = b.minPrefix ?? new Uint8Array(16);
+        const maxPrefix = b.maxPrefix ?? new Uint8Array(16);
 
         // TableMeta must use absolute indexOff and unpadded indexLen
         const meta: TableMeta = {
             id: crypto.randomUUID(),
-            level: 0,
-            minKey: minPrefix ?? new Uint8Array(16),
-            maxKey: maxPrefix ?? new Uint8Array(16),
-            seqMin: 0n,
-            seqMax: 0n,
-            extents: [],
+            level,
+            minKey: minPrefix,
+            maxKey: maxPrefix,
+            seqMin: b.seqMin ?? 0n,
+            seqMax: b.seqMax ?? 0n,
+            extents: [ext],
             sizeBytes,
             blockSize: BLOCK,
             indexOff,                   // absolute
             indexLen,                   // unpadded
-            entryCount,
+            indexCrc: crc32c(indexRaw),
+            entryCount: b.entryCount,
+            codec: b.codec,
+            blockFormat: BLOCK_PREFIXED,
+            bloomOff,                   // absolute
+            bloomLen: bloom.length,
+            bloomCrc: crc32c(bloom),
         };
 
-        // Encode meta into one block
-        const encoded = encodeTableMeta(meta);
-        const alignedMetaBlock = new Uint8Array(BLOCK);
-        alignedMetaBlock.set(encoded, 0);
+        try {
+            // Encode meta into one block, checksummed in its last 4 bytes
+            const encoded = encodeTableMeta(meta);
+            const alignedMetaBlock = new Uint8Array(BLOCK);
+            alignedMetaBlock.set(encoded, 0);
+            new DataView(alignedMetaBlock.buffer).setUint32(BLOCK - 4, crc32c(alignedMetaBlock.subarray(0, BLOCK - 4)), true);
+
+            // Compose full table blob: [meta block][index][blocks][bloom]
+            const full = concat([alignedMetaBlock, indexBuf, ...b.blocks, bloom]);
+            if (full.byteLength !== sizeBytes) {
+                throw new DatabaseError(TABLE_RESULT.BROKEN_TABLE_SIZE, `broken table size: ${full.byteLength} !== ${sizeBytes}`);
+            }
 
-        // Compose full table blob: [meta block][index][blocks]
-        const full = this.concat([alignedMetaBlock, indexBuf, ...blocks]);
-        if (full.byteLength !== entry.metaLen) {
-            throw new DatabaseError(TABLE_RESULT.BROKEN_TABLE_SIZE, `broken table size: ${full.byteLength} !== ${entry.metaLen}`);
+            // Write at reserved location
+            await this.file.write(metaOff, full);
+            await this.file.fsync();
+        } catch (e) {
+            // nothing refers to the table yet; its space goes back
+            this.alloc.release(ext);
+            throw e;
         }
+        log(LogLevel.info, "Table written", { id: meta.id, level, sizeBytes, entryCount: b.entryCount, codec: b.codec });
 
-        // Write at reserved location
-        await this.file.write(metaOff, full);
-        await this.file.fsync();
-        log(LogLevel.info, "Table flushed", { id: meta.id, sizeBytes, entryCount });
+        return { level, metaOff: BigInt(metaOff), metaLen: sizeBytes, minPrefix, maxPrefix };
     }
 
+    // Flush a frozen memtable as a new level-0 table
+    async flushWAL(tree: BTree<string, MemEntry>) {
+        log(LogLevel.info, "Starting table flush", { entryCount: tree.size });
+        let enc = new TextEncoder()
+        const b = this.builder(0);
 
-    async readEntryHead(i: number) {
-        const e = this.manifest.entries[i];
-        if (!e) throw new DatabaseError(TABLE_RESULT.ENTRY_NOT_EXIST, "entry doesn't exist");
+        // The memtable is kept in table order (see LSM), so entries come out sorted
+        tree.toArray().forEach(([k, v]) => {
+            const kb = enc.encode(k)
+            const vb = enc.encode(v.value)
+            b.add(kb, vb, v.seq, v.tombstone ? REC_TOMBSTONE : 0)
+        })
+
+        const entry = await this.writeTable(0, b);
+        if (!entry) return; // nothing to flush
+        await this.applyEdit({ added: [entry] });
+    }
 
-        if (this.map.has(e.metaOff)) {
+    async readHead(e: ManifestEntry): Promise<TableHead> {
+        const cached = this.heads.get(e.metaOff);
+        if (cached) {
             log(LogLevel.debug, "Head cache hit", { saved: e.metaLen })
-            return this.map.get(e.metaOff)!
+            return cached
         }
 
         const metaOff = Number(e.metaOff);
         const metaBuf = await this.file.read(metaOff, BLOCK);
+        verifyChecksum(metaBuf.subarray(0, BLOCK - 4), new DataView(metaBuf.buffer, metaBuf.byteOffset).getUint32(BLOCK - 4, true),
+            `table at ${metaOff}: meta block`);
         const table = decodeTableMeta(metaBuf);
 
         const indexRaw = await this.file.read(table.indexOff, table.indexLen);
+        verifyChecksum(indexRaw, table.indexCrc, `table ${table.id}: index at ${table.indexOff}`);
         const idxRel = decodeIndex(indexRaw);
 
         const dataStart = table.indexOff + alignUp(table.indexLen, 8);
@@ -395,17 +724,89 @@ export class TableIO {
             firstKey: ent.firstKey,
             off: dataStart + ent.off, // ABSOLUTE FILE OFFSET
             len: ent.len,
+            crc: ent.crc,
         }));
 
-        const res = { index: indexAbs, table };
-        this.map.set(e.metaOff, res);
+        let bloom: Uint8Array | null = null;
+        if (table.bloomLen > 0) {
+            bloom = await this.file.read(table.bloomOff, table.bloomLen);
+            verifyChecksum(bloom, table.bloomCrc, `table ${table.id}: bloom filter at ${table.bloomOff}`);
+        }
+
+        const res = { index: indexAbs, table, bloom };
+        // A lookup that took the manifest before an edit may be reading a table that has since
+        // been dropped; cached, its head would be served to the next table written at metaOff
+        if (this.manifest.entries.includes(e)) {
+            this.heads.set(e.metaOff, res);
+            this.ids.set(e.metaOff, table.id);
+            this.liveIds.add(table.id);
+        }
         return res
     }
+
+    async readEntryHead(i: number) {
+        const e = this.manifest.entries[i];
+        if (!e) throw new DatabaseError(TABLE_RESULT.ENTRY_NOT_EXIST, "entry doesn't exist");
+        return this.readHead(e);
+    }
+
+    // Bulk readers (compaction) pass fillCache: false so one pass over old tables
+    // doesn't push out the blocks point lookups keep hitting
+    reader(head: TableHead, { fillCache = true } = {}) {
+        return new TableReader(this.file, head, this.order, this.blocks, fillCache, (id) => this.liveIds.has(id));
+    }
+
+    // Point lookup across on-disk tables; the highest sequence wins
+    async get(key: Uint8Array) {
+        const p16 = this.order.prefix(key);
+        const entries = this.manifest.entries; // applyEdit swaps in a new array, never edits this one
+        let best: Awaited<ReturnType<TableReader["get"]>> = null;
+        const release = this.pin();
+        try {
+            for (let i = entries.length - 1; i >= 0; i--) {
+                const e = entries[i]!;
+                if (lt16(p16, e.minPrefix) || gt16(p16, e.maxPrefix)) continue;
+
+                const head = await this.readHead(e);
+                if (best && head.table.seqMax <= best.seq) continue; // nothing newer in here
+                if (head.bloom && !bloomMayContain(head.bloom, key)) {
+                    this.stats.bloomSkips++;
+                    continue;
+                }
+
+                const found = await this.reader(head).get(key);
+                if (found && (!best || found.seq > best.seq)) best = found;
+            }
+        } finally {
+            release();
+        }
+        return best;
+    }
+
+    // Sources over every table that may hold keys in [lo, hi) (either bound optional), for a
+    // merged scan. Call `release` once done; until then dropped tables keep their blocks.
+    async scan(lo?: Uint8Array, hi?: Uint8Array, reverse = false): Promise<{ sources: Source[], release: () => void }> {
+        const loP = lo && this.order.prefix(lo);
+        const hiP = hi && this.order.prefix(hi);
+        const live = this.manifest.entries.filter((e) =>
+            !(loP && cmp16(e.maxPrefix, loP) < 0) && !(hiP && cmp16(e.minPrefix, hiP) > 0));
+
+        const release = this.pin();
+        try {
+            const heads = await Promise.all(live.map((e) => this.readHead(e)));
+            const sources = heads.map((head) => {
+                const it = this.reader(head).range(lo, hi, reverse);
+                return { next: async () => (await it.next()).value ?? null };
+            });
+            return { sources, release };
+        } catch (e) {
+            release();
+            throw e;
+        }
+    }
+
     async aggHeads(level: number = 0) {
-        return (await Promise.all(this.manifest.entries.map(async (_, i) => {
-            const head = await this.readEntryHead(i)
-            if (head.table.level === level) return head
-        }))).filter((v) => v !== undefined)
+        return Promise.all(this.manifest.entries.filter((e) => e.level === level).map((e) => this.readHead(e)))
     }
 
     async levelSize(level: number) {
@@ -424,15 +825,88 @@ export class TableReader {
     localPos: number = 0;
     iter: number = 0;
     i: number = 0;
-    constructor(private file: FileIO, private meta: { index: IndexEntry[], table: TableMeta }) { }
+    restarts: number[] = [];
+    interval: number = 0;
+    constructor(
+        private file: FileIO,
+        private meta: TableHead,
+        private order: KeyOrder = HASH_ORDER,
+        private cache: BlockCache | null = null,
+        private fillCache = true,
+        private live: (id: string) => boolean = () => true, // blocks of dropped tables aren't cached
+    ) { }
 
     async loadBlock(e: IndexEntry) {
-        this.block = await this.file.read(e.off, e.len);
-        const dv = new DataView(this.block.buffer, this.block.byteOffset);
+        const key = `${this.meta.table.id}:${e.off}`;
+        const cached = this.cache?.get(key);
+        if (cached) {
+            this.block = cached;
+        } else {
+            const stored = await this.file.read(e.off, e.len);
+            verifyChecksum(stored, e.crc, `table ${this.meta.table.id}: block at ${e.off}`);
+            this.block = decompress(this.meta.table.codec, stored);
+            if (this.fillCache && this.live(this.meta.table.id)) this.cache?.set(key, this.block);
+        }
+        const dv = new DataView(this.block.buffer, this.block.byteOffset, this.block.byteLength);
         this.count = dv.getUint16(0, true);
         this.localPos = 2;
         this.iter = 0;
         this.prevKey = new Uint8Array(0);
+
+        this.restarts = [];
+        const n = dv.getUint16(this.block.length - 2, true);
+        this.interval = dv.getUint16(this.block.length - 4, true);
+        const start = this.block.length - 4 - n * 4;
+        for (let r = 0; r < n; r++) this.restarts.push(dv.getUint32(start + r * 4, true));
+    }
+
+    private readRecord() {
+        const dv = new DataView(this.block.buffer, this.block.byteOffset + this.localPos);
+        const shared = dv.getUint16(0, true);
+        const unshared = dv.getUint16(2, true);
+        const vlen = dv.getUint32(4, true);
+        const flags = dv.getUint8(8);
+        const seq = dv.getBigUint64(9, true);
+        this.localPos += 2 + 2 + 4 + 1 + 8;
+
+        const suffix = this.block.subarray(this.localPos, this.localPos + unshared);
+        this.localPos += unshared;
+        const key = shared === 0 ? suffix : concat([this.prevKey.subarray(0, shared), suffix]);
+        const value = this.block.subarray(this.localPos, this.localPos + vlen);
+        this.localPos += vlen;
+
+        this.prevKey = key;
+        this.iter++;
+        return { key, value, seq, tombstone: (flags & REC_TOMBSTONE) !== 0 };
+    }
+
+    // Restart records store their whole key
+    private restartKey(r: number) {
+        const off = this.restarts[r]!;
+        const unshared = new DataView(this.block.buffer, this.block.byteOffset + off).getUint16(2, true);
+        const start = off + 2 + 2 + 4 + 1 + 8;
+        return this.block.subarray(start, start + unshared);
+    }
+
+    // Position at the last restart whose key <= key; false if key sorts before the block
+    private seekRestart(key: Uint8Array) {
+        let lo = 0;
+        let hi = this.restarts.length - 1;
+        let cand = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.order.compare(this.restartKey(mid), key) <= 0) {
+                cand = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        if (cand < 0) return false;
+        this.localPos = this.restarts[cand]!;
+        this.iter = cand * this.interval;
+        this.prevKey = new Uint8Array(0);
+        return true;
     }
 
     async next() {
@@ -445,35 +919,70 @@ export class TableReader {
                 this.block = new Uint8Array(0);
                 continue;
             }
+            return this.readRecord();
+        }
+    }
 
-            const dv = new DataView(this.block.buffer, this.block.byteOffset + this.localPos);
-            const klen = dv.getUint16(0, true);
-            const vlen = dv.getUint32(2, true);
-            this.localPos += 2 + 4;
-
-            const key = this.block.subarray(this.localPos, this.localPos + klen);
-            this.localPos += klen;
-            const value = this.block.subarray(this.localPos, this.localPos + vlen);
-            this.localPos += vlen;
-
-            this.iter++;
-            return { key, value };
+    // Records with lo <= key < hi (either bound optional), descending if `reverse`. Blocks
+    // whose firstKeys place them wholly outside the range are never read.
+    async *range(lo?: Uint8Array, hi?: Uint8Array, reverse = false) {
+        const index = this.meta.index;
+        const cmp = this.order.compare;
+        const blocks: IndexEntry[] = [];
+        for (let b = 0; b < index.length; b++) {
+            const nextFirst = index[b + 1]?.firstKey;
+            if (lo && nextFirst && cmp(nextFirst, lo) <= 0) continue; // every key < lo
+            if (hi && cmp(index[b]!.firstKey, hi) >= 0) break;
+            blocks.push(index[b]!);
+        }
+        this.i = index.length; // range owns the reader; next() has nothing left
+        if (reverse) blocks.reverse();
+
+        for (const e of blocks) {
+            await this.loadBlock(e);
+            if (lo) this.seekRestart(lo);
+            const held: Cur[] = [];
+            let past = false;
+            while (this.iter < this.count) {
+                const rec = this.readRecord();
+                if (lo && cmp(rec.key, lo) < 0) continue;
+                if (hi && cmp(rec.key, hi) >= 0) { past = true; break; }
+                if (reverse) held.push(rec);
+                else yield rec;
+            }
+            // records can only be decoded front to back, so a block is reversed whole
+            for (let r = held.length - 1; r >= 0; r--) yield held[r]!;
+            if (past && !reverse) return;
         }
     }
-}
 
-function encodeManifestEntry(me: ManifestEntry): Uint8Array {
-    if (me.minPrefix.length !== PREFIX || me.maxPrefix.length !== PREFIX) {
-        throw new DatabaseError(TABLE_RESULT.INVALID_PREFIX_SIZE, `prefixes must be exactly ${PREFIX} bytes`);
+    // Binary search the index for the last block whose firstKey <= key, then the
+    // block's restarts, and scan forward from there.
+    async get(key: Uint8Array) {
+        const index = this.meta.index;
+        let lo = 0;
+        let hi = index.length - 1;
+        let cand = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.order.compare(index[mid]!.firstKey, key) <= 0) {
+                cand = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        if (cand < 0) return null;
+
+        await this.loadBlock(index[cand]!);
+        this.i = index.length; // a lookup never rolls into the next block
+        if (!this.seekRestart(key)) return null;
+        while (this.iter < this.count) {
+            const rec = this.readRecord();
+            const c = this.order.compare(rec.key, key);
+            if (c === 0) return rec;
+            if (c > 0) break; // records are sorted, so the key isn't here
+        }
+        return null;
     }
-    const buf = new Uint8Array(ENTRY_SIZE);
-    const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
-    let o = 0;
-    v.setUint16(o, me.level, true); o += 2;
-    v.setUint16(o, 0, true); o += 2; // reserved
-    v.setBigUint64(o, me.metaOff, true); o += 8;
-    v.setUint32(o, me.metaLen, true); o += 4;
-    buf.set(me.minPrefix, o); o += PREFIX;
-    buf.set(me.maxPrefix, o); o += PREFIX;
-    return buf;
 }
@@ -1,5 +1,20 @@
-import { OP, OP_INV, MAX_INFLIGHT, PREFIX } from "./constants";
-import type { Op } from "./constants";
+import { OP, OP_INV, PREFIX } from "./constants";
+import type { Codec, Op } from "./constants";
+
+export type MemEntry = {
+    value: string;
+    seq: bigint;            // WAL LSN that produced this version
+    tombstone: boolean;
+};
+
+// Bounds compare in the database's key order; `prefix` matches leading key bytes
+export type ScanOptions = {
+    gte?: string;
+    lt?: string;
+    prefix?: string;
+    limit?: number;
+    reverse?: boolean;
+};
 
 export type Extent = { startBlock: number; blocks: number };
 
@@ -7,6 +22,7 @@ export type IndexEntry = {
     firstKey: Uint8Array;
     off: number; // table-relative byte offset (u64 on disk)
     len: number; // block length (u32 on disk)
+    crc: number; // crc32c of the block bytes (u32 on disk)
 };
 
 export type TableMeta = {
@@ -21,7 +37,20 @@ export type TableMeta = {
     blockSize: number;
     indexOff: number;
     indexLen: number;
+    indexCrc: number;
     entryCount: number;
+    codec: Codec;           // u8, how data blocks are compressed
+    blockFormat: number;    // u8, BLOCK_PREFIXED
+    bloomOff: number;       // u64, absolute file offset of the Bloom filter
+    bloomLen: number;       // u32, 0 = no filter
+    bloomCrc: number;       // u32
+};
+
+// What TableIO caches per table: the decoded meta block, index and Bloom filter
+export type TableHead = {
+    table: TableMeta;
+    index: IndexEntry[];
+    bloom: Uint8Array | null;
 };
 
 export type ManifestEntry = {
@@ -35,5 +64,6 @@ export type ManifestEntry = {
 export type ManifestPage = {
     epoch: bigint;          // u64
     version?: number;       // u16 (default 1)
+    next?: bigint;          // u64, v2+: file offset of the next page in the chain (0 = last)
     entries: ManifestEntry[];
 };
@@ -24,6 +24,22 @@ export function gt16(a: Uint8Array, b: Uint8Array): boolean {
     return cmp16(a, b) > 0;
 }
 
+export function cmpBytes(a: Uint8Array, b: Uint8Array): number {
+    const n = Math.min(a.length, b.length);
+    for (let i = 0; i < n; i++) {
+        const d = a[i]! - b[i]!;
+        if (d !== 0) return d;
+    }
+    return a.length - b.length;
+}
+
+// Table order: hashed 16-byte prefix first, full key bytes break ties
+export function cmpSortKey(a: Uint8Array, b: Uint8Array): number {
+    const d = cmp16(extractSortKey16(a), extractSortKey16(b));
+    if (d !== 0) return d;
+    return cmpBytes(a, b);
+}
+
 export function between16(
     x: Uint8Array,
     loIncl: Uint8Array,
@@ -32,6 +48,26 @@ export function between16(
     return cmp16(x, loIncl) >= 0 && cmp16(x, hiExcl) < 0;
 }
 
+// CRC-32C (Castagnoli), reflected polynomial 0x82F63B78
+const CRC32C_TABLE = (() => {
+    const t = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) c = c & 1 ? (c >>> 1) ^ 0x82f63b78 : c >>> 1;
+        t[i] = c >>> 0;
+    }
+    return t;
+})();
+
+// Pass the previous result as `crc` to checksum several buffers as one
+export function crc32c(buf: Uint8Array, crc = 0): number {
+    let c = ~crc >>> 0;
+    for (let i = 0; i < buf.length; i++) {
+        c = CRC32C_TABLE[(c ^ buf[i]!) & 0xff]! ^ (c >>> 8);
+    }
+    return ~c >>> 0;
+}
+
 export enum LogLevel {
     debug = 0,
     info = 1,
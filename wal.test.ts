@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileIO } from "./file-manager";
+import { SuperblockManager } from "./superblock";
+import { WAL_Manager } from "./wal";
+import { J_START, WAL_RESULT } from "./constants";
+
+// A small ring so a few hundred records go round it several times
+const JOURNAL = 16 * 1024;
+const J_END = J_START + JOURNAL;
+
+let dir: string;
+let files: FileIO[];
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "wal-test-"));
+    files = [];
+});
+
+afterEach(async () => {
+    for (const f of files) await f.close();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+async function openFile(flag: "r+" | "w+") {
+    const io = new FileIO(join(dir, "db.bin"));
+    await io.open(flag);
+    files.push(io);
+    return io;
+}
+
+async function create() {
+    const io = await openFile("w+");
+    const sbm = new SuperblockManager(io);
+    await sbm.formatInitial({ journalStart: J_START });
+    const wal = new WAL_Manager(io, { journalBytes: JOURNAL });
+    await wal.format(J_END);
+    return { io, sbm, wal };
+}
+
+async function reopen() {
+    const io = await openFile("r+");
+    const sbm = new SuperblockManager(io);
+    const sb = await sbm.load();
+    const wal = new WAL_Manager(io, { journalBytes: JOURNAL });
+    const truncated = await wal.initFrom(Number(sb.jHead), Number(sb.jTail), sb.checkpointLSN, sbm);
+    const { records } = await wal.scan(wal.getHead(), wal.getTail());
+    return { io, sbm, wal, truncated, records, checkpointLSN: sb.checkpointLSN };
+}
+
+const key = (i: number) => `k${String(i).padStart(4, "0")}`;
+
+// Appends single-record batches of `recordBytes` each (header and padding included), keeping
+// about half the ring live by checkpointing behind the tail. Returns the offsets where the
+// writer wrapped.
+async function fill(wal: WAL_Manager, sbm: SuperblockManager, count: number, recordBytes: number) {
+    const value = "v".repeat(recordBytes - 21 - key(0).length);
+    const wraps: number[] = [];
+    for (let i = 1; i <= count; i++) {
+        const before = wal.getTail();
+        await wal.appendMany([{ op: "set", key: key(i), value, ts: 0n, next: null }], { sync: false });
+        if (wal.getTail() < before) wraps.push(before);
+        if (wal.getUsed() > JOURNAL / 2) await wal.checkpoint(BigInt(i) - 100n, sbm);
+    }
+    return wraps;
+}
+
+async function expectRecovered(last: number) {
+    const { records, checkpointLSN, truncated } = await reopen();
+    expect(truncated).toBe(0);
+    expect(records.length).toBe(last - Number(checkpointLSN));
+    records.forEach((r, n) => {
+        const i = Number(checkpointLSN) + 1 + n;
+        expect(r.lsn).toBe(BigInt(i));
+        expect(r.key).toBe(key(i));
+    });
+}
+
+describe("WAL ring wrap", () => {
+    test("wraps with a trailing PAD and recovers", async () => {
+        // 16384 % 40 leaves 24 bytes before jEnd: room for a PAD
+        const { io, sbm, wal } = await create();
+        const wraps = await fill(wal, sbm, 1500, 40);
+        expect(wraps.length).toBeGreaterThanOrEqual(3);
+
+        for (const at of wraps) {
+            const buf = await io.read(at, J_END - at);
+            expect(wal.decodeAt(new DataView(buf.buffer, buf.byteOffset, buf.byteLength), 0)?.kind).toBe("pad");
+        }
+        await wal.sync(sbm);
+        await expectRecovered(1500);
+    });
+
+    test("wraps without room for a PAD and recovers", async () => {
+        // 16384 % 48 leaves 16 bytes, less than a record header
+        const { io, sbm, wal } = await create();
+        const wraps = await fill(wal, sbm, 1500, 48);
+        expect(wraps.length).toBeGreaterThanOrEqual(3);
+
+        for (const at of wraps) {
+            const buf = await io.read(at, J_END - at);
+            expect(wal.decodeAt(new DataView(buf.buffer, buf.byteOffset, buf.byteLength), 0)).toBeNull();
+        }
+        await wal.sync(sbm);
+        await expectRecovered(1500);
+    });
+
+    test("a batch that wraps stops short of live records past jStart", async () => {
+        const { sbm, wal } = await create();
+        const set = (k: string, bytes: number, more = false) =>
+            ({ op: "set" as const, key: k, value: "v".repeat(bytes - 21 - k.length), ts: 0n, next: null, more });
+        for (let i = 1; i <= 371; i++) await wal.appendMany([set(key(i), 40)], { sync: false });
+        // live records from +4000 to +14840: 5544 bytes free, but only 4000 of them at jStart
+        await wal.checkpoint(100n, sbm);
+        const batch = () => [set("b1", 2400, true), set("b2", 2400)];
+
+        await expect(wal.appendMany(batch(), { sync: false })).rejects.toMatchObject({ code: WAL_RESULT.WAL_FULL });
+        await wal.sync(sbm);
+        await expectRecovered(371);
+
+        await wal.checkpoint(200n, sbm);
+        const tail = wal.getTail();
+        await wal.appendMany(batch(), { sync: false });
+        expect(wal.getTail()).toBeLessThan(tail);
+        await wal.sync(sbm);
+
+        const { records } = await reopen();
+        expect(records.map((r) => r.lsn)).toEqual(Array.from({ length: 173 }, (_, n) => BigInt(201 + n)));
+        expect(records.slice(-2).map((r) => r.key)).toEqual(["b1", "b2"]);
+    });
+
+    test("recovers records appended after the last published tail", async () => {
+        const { sbm, wal } = await create();
+        await fill(wal, sbm, 1000, 40);
+        await wal.sync(sbm);
+        for (let i = 1001; i <= 1020; i++) {
+            await wal.appendMany([{ op: "set", key: key(i), value: "x", ts: 0n, next: null }], { sync: false });
+        }
+        await expectRecovered(1020);
+    });
+
+    test("truncates a torn record after a wrap", async () => {
+        const { io, sbm, wal } = await create();
+        await fill(wal, sbm, 1000, 40);
+        await wal.sync(sbm);
+
+        // flip a byte in the last record's key
+        const off = wal.getTail() - 40 + 21;
+        const b = await io.read(off, 1);
+        b[0]! ^= 0xff;
+        await io.write(off, b);
+
+        const { records, truncated } = await reopen();
+        expect(truncated).toBe(40);
+        expect(records[records.length - 1]!.lsn).toBe(999n);
+    });
+});
+
+describe("WAL sync accounting", () => {
+    test("an overlapping sync and checkpoint count the bytes they cover once", async () => {
+        const { sbm, wal } = await create();
+        for (let i = 1; i <= 10; i++) {
+            await wal.appendMany([{ op: "set", key: key(i), value: "v", ts: 0n, next: null }], { sync: false });
+        }
+        await Promise.all([wal.sync(sbm), wal.checkpoint(5n, sbm)]);
+        expect(wal.getUnsyncedBytes()).toBe(0);
+
+        await wal.appendMany([{ op: "set", key: key(11), value: "v", ts: 0n, next: null }], { sync: false });
+        expect(wal.getUnsyncedBytes()).toBe(32);
+    });
+});
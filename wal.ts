@@ -1,10 +1,26 @@
 import type { Op } from "./constants";
 import { OP, OP_INV } from "./constants";
 import { type FileIO } from "./file-manager";
-import { BLOCK, SB_A_OFF, SB_B_OFF, J_START, J_LENGTH, WAL_RESULT, DatabaseError } from "./constants";
+import { BLOCK, SB_A_OFF, SB_B_OFF, J_START, J_LENGTH, WAL_OP_MORE, WAL_RESULT, SB_CHECKSUMMED_VERSION, DatabaseError } from "./constants";
 import type { Operation } from "./event-ring";
 import type { SuperblockManager } from "./superblock";
-import { log, LogLevel } from "./utils";
+import { crc32c, log, LogLevel } from "./utils";
+
+export type WalRecord = {
+    lsn: bigint;
+    op: number;
+    more: boolean;  // more records of the same write batch follow
+    key: string;
+    value?: string;
+    off: number;    // file offset of the record
+    end: number;    // file offset just past the record (jStart if it ended at jEnd)
+};
+
+export type WalScan = {
+    records: WalRecord[];
+    end: number;        // file offset where the valid log ends
+    truncated: number;  // bytes between `end` and the scanned tail that failed verification (0 without one)
+};
 
 export class WAL_Manager {
     lsnToEnd = new Map<bigint, number>();
@@ -14,14 +30,20 @@ export class WAL_Manager {
     }
 
     private lsn: bigint = 0n;
+    private durableLSN: bigint = 0n;    // everything up to here has been fsynced
+    private appended = 0;               // bytes appended since open
+    private synced = 0;                 // `appended` as of the newest append an fsync covers
     private head: number; // head offset of WAL ring (moved on checkpoint)
     private tail: number; // tail offset of WAL ring
     private readonly jStart: number;
     private readonly jEnd: number;
 
-    // Record header sizes (no magic/CRC)
-    // [lsn u64][op u8][klen u32][vlen u32]
-    private readonly minHdr = 8 + 1 + 4 + 4;
+    // Record header sizes
+    // [lsn u64][op u8][klen u32][vlen u32][crc32c u32]
+    private readonly minHdr = 8 + 1 + 4 + 4 + 4;
+    private readonly crcOff = 8 + 1 + 4 + 4;
+    // Baseline records: [lsn u64][op u8][klen u32][vlen u32], no checksum or batch flag
+    private readonly legacyHdr = 8 + 1 + 4 + 4;
 
     // Op code 0 = PAD/wrap
     private readonly OP_PAD = 0;
@@ -41,16 +63,90 @@ export class WAL_Manager {
         this.head = this.jStart;
         this.tail = this.jStart;
         this.lsn = 0n;
+        this.durableLSN = 0n;
     }
 
     // Boot from known jHead/jTail/LSN (e.g., after reading superblock+scan)
-    async initFrom(head: number, tail: number, lastLSN: bigint) {
+    // Returns the number of bytes dropped from the tail because they failed verification.
+    // Pass the SuperblockManager so a journal written in the baseline record format can be
+    // upgraded in place; without it the log is read as current-format records.
+    async initFrom(head: number, tail: number, lastLSN: bigint, sbm?: SuperblockManager) {
         this.head = head;
         this.tail = tail;
         this.lsn = lastLSN;
-        for (const e of await this.scan(this.head, this.tail)) {
-            this.lsnToEnd.set(e.lsn, this.head + e.off);
+        const legacy = sbm !== undefined && (sbm.current()?.version ?? SB_CHECKSUMMED_VERSION) < SB_CHECKSUMMED_VERSION;
+        // The persisted tail lags whatever "group" and "none" durability appended after the last
+        // flip, so read on past it while the records verify and carry on from the checkpoint.
+        // Baseline records have no checksum to tell where they stop; their tail was always current.
+        const { records, end } = legacy
+            ? await this.scan(head, tail, { legacy })
+            : await this.scan(head, undefined, { after: lastLSN });
+        for (const e of records) {
+            this.lsnToEnd.set(e.lsn, e.end);
         }
+        // After a truncation the log, not the superblock, knows the last LSN that survived
+        const last = records[records.length - 1];
+        if (last) this.lsn = last.lsn;
+
+        const persisted = this.ringDistance(head, tail);
+        const recovered = this.ringDistance(head, end);
+        const truncated = Math.max(0, persisted - recovered);
+        if (truncated > 0) {
+            log(LogLevel.warn, "Truncated torn WAL tail", { bytes: truncated, lastLSN: this.lsn });
+        } else if (recovered > persisted) {
+            log(LogLevel.info, "Recovered WAL records past the persisted tail", { bytes: recovered - persisted, lastLSN: this.lsn });
+        }
+        this.tail = end;
+        await this.clearFree();
+        this.durableLSN = this.lsn;
+        if (legacy) await this.upgradeLegacy(records, sbm!);
+        return truncated;
+    }
+
+    // Zero the free part of the ring and fsync, which also makes the recovered records durable.
+    // A crash can leave a torn record with intact ones after it (writeback needn't follow file
+    // order); once new appends reuse the LSNs, those could line up behind them and be replayed.
+    private async clearFree() {
+        const spans = this.tail < this.head
+            ? [{ start: this.tail, stop: this.head }]
+            : [{ start: this.tail, stop: this.jEnd }, { start: this.jStart, stop: this.head }];
+        for (const { start, stop } of spans) {
+            if (stop > start) await this.file.write(start, new Uint8Array(stop - start));
+        }
+        await this.file.fsync();
+    }
+
+    // Re-log baseline records in the current format right after them, keeping their LSNs, and
+    // publish the copy in one superblock flip. Until that flip lands the superblock still points
+    // at the baseline records, so a crash midway leaves them to be upgraded on the next open.
+    private async upgradeLegacy(records: WalRecord[], sbm: SuperblockManager) {
+        let head = this.tail;
+        if (records.length > 0) {
+            const copyBytes = records.reduce((s, r) => s + this.recordBytes(r.key, r.value), 0);
+            // appendMany moves a batch that doesn't fit before jEnd to jStart as a whole
+            if (head + copyBytes > this.jEnd) head = this.jStart;
+
+            this.lsn = records[0]!.lsn - 1n;
+            const ops: Operation[] = records.map((r) => ({ op: OP_INV[r.op]!, key: r.key, value: r.value, ts: 0n, next: null }));
+            try {
+                await this.appendMany(ops, { sync: false });
+            } catch (e) {
+                log(LogLevel.err, "No room to upgrade the baseline WAL", { records: records.length, bytes: copyBytes });
+                throw e;
+            }
+        }
+        // The baseline raised checkpointLSN on every commit; only its head marked what tables
+        // hold, so every record left in the log still needs replaying
+        const checkpointLSN = records.length > 0 ? records[0]!.lsn - 1n : this.lsn;
+        await sbm.checkpoint({ checkpointLSN, jHead: BigInt(head), jTail: BigInt(this.tail) });
+        this.head = head;
+        this.synced = this.appended;
+        log(LogLevel.warn, "Upgraded baseline WAL records", { records: records.length, lastLSN: this.lsn });
+    }
+
+    // CRC over the whole record except the crc field itself
+    private checksum(rec: Uint8Array): number {
+        return crc32c(rec.subarray(this.crcOff + 4), crc32c(rec.subarray(0, this.crcOff)));
     }
 
     // Encode one record (aligned)
@@ -76,10 +172,12 @@ export class WAL_Manager {
         o += 4;
         v.setUint32(o, vb.length, true);
         o += 4;
+        o += 4; // crc, filled below
 
         raw.set(kb, o);
         o += kb.length;
         raw.set(vb, o);
+        v.setUint32(this.crcOff, this.checksum(raw), true);
 
         const out = new Uint8Array(this.alignUp(raw.length));
         out.set(raw, 0);
@@ -99,43 +197,80 @@ export class WAL_Manager {
         o += 4;
         v.setUint32(o, 0, true);
         o += 4;
+        v.setUint32(o, this.checksum(raw), true);
+        o += 4;
         const out = new Uint8Array(this.alignUp(raw.length));
         out.set(raw, 0);
         return out;
     }
 
+    // Bytes from `from` to `to` going forward around the ring
+    private ringDistance(from: number, to: number) {
+        return to >= from
+            ? to - from
+            : (this.jEnd - from) + (to - this.jStart);
+    }
+
     getUsed() {
-        return this.tail >= this.head
-            ? this.tail - this.head
-            : (this.jEnd - this.head) + (this.tail - this.jStart);
+        return this.ringDistance(this.head, this.tail);
+    }
+
+    getCapacity() {
+        return this.jEnd - this.jStart;
+    }
+
+    // Bytes logged since the tail was at `offset`
+    bytesSince(offset: number) {
+        return this.ringDistance(offset, this.tail);
     }
 
-    // Append a batch; handles wrap; updates tail and LSNs
-    async appendMany(items: Operation[]): Promise<bigint> {
+    // Aligned size of a record
+    private recordBytes(key: string, value?: string) {
+        const enc = new TextEncoder();
+        return this.alignUp(this.minHdr + enc.encode(key).length + (value === undefined ? 0 : enc.encode(value).length));
+    }
+
+    // Whether `batchBytes` of records can be appended now
+    private room(batchBytes: number) {
+        const free = (this.jEnd - this.jStart) - this.getUsed();
+        const needsWrap = this.tail + batchBytes > this.jEnd;
+        const needTotal = batchBytes + (needsWrap ? this.alignUp(this.minHdr) : 0);
+        // A wrapped batch starts over at jStart: the gap it leaves before jEnd is no use to it,
+        // and it must stop short of the head
+        const wrapBlocked = needsWrap && this.tail >= this.head && batchBytes >= this.head - this.jStart;
+        // head === tail means empty, so the ring can never be filled completely
+        return { free, needsWrap, needTotal, fits: free > needTotal && !wrapBlocked };
+    }
+
+    // Whether appendMany(items) would find room now
+    fits(items: Operation[]) {
+        // a UTF-16 code unit never takes more than 3 UTF-8 bytes; encode only when that's too much
+        const bound = items.reduce((s, it) => s + this.alignUp(this.minHdr + 3 * (it.key.length + (it.value?.length ?? 0))), 0);
+        if (this.room(bound).fits) return true;
+        return this.room(items.reduce((s, it) => s + this.recordBytes(it.key, it.value), 0)).fits;
+    }
+
+    // Append a batch; handles wrap; updates tail and LSNs. With sync: false the records
+    // are only handed to the OS; they become durable at the next sync().
+    async appendMany(items: Operation[], { sync = true } = {}): Promise<bigint> {
         const toNumOp = (op: Op) => OP[op];
 
         // Pre-encode records with contiguous LSNs
         let next = this.lsn;
         const recs = items.map((it) => {
             next += 1n;
+            it.lsn = next;
             return {
                 lsn: next,
-                buf: this.encodeRecord(next, toNumOp(it.op), it.key, it.value),
+                buf: this.encodeRecord(next, toNumOp(it.op) | (it.more ? WAL_OP_MORE : 0), it.key, it.value),
             };
         });
 
         const batchBytes = recs.reduce((s, r) => s + r.buf.length, 0);
         const padBytes = this.alignUp(this.minHdr);
-        const regionBytes = this.jEnd - this.jStart;
-
-        // Free-space in the ring
-        const used = this.getUsed()
-        const free = regionBytes - used;
+        const { free, needsWrap, needTotal, fits } = this.room(batchBytes);
 
-        const needsWrap = this.tail + batchBytes > this.jEnd;
-        const needTotal = batchBytes + (needsWrap ? padBytes : 0);
-
-        if (free < needTotal) {
+        if (!fits) {
             log(LogLevel.err, "WAL full", { free, need: needTotal, batch: batchBytes, wrap: needsWrap });
             throw new DatabaseError(
                 WAL_RESULT.WAL_FULL,
@@ -146,8 +281,10 @@ export class WAL_Manager {
         }
 
         if (needsWrap) {
-            const pad = this.encodePad(this.lsn); // PAD doesn't consume an LSN
-            await this.file.write(this.tail, pad);
+            // PAD doesn't consume an LSN; without room for one, readers wrap on their own
+            if (this.jEnd - this.tail >= padBytes) {
+                await this.file.write(this.tail, this.encodePad(this.lsn));
+            }
             this.tail = this.jStart;
         }
 
@@ -162,34 +299,60 @@ export class WAL_Manager {
 
         this.tail = off === this.jEnd ? this.jStart : off;
         this.lsn = next;
+        this.appended += needTotal;
 
-        log(LogLevel.debug, "Appended batch to WAL", { count: items.length, lastLSN: next });
+        log(LogLevel.debug, "Appended batch to WAL", { count: items.length, lastLSN: next, sync });
 
-        await this.file.fsync(); // per durability policy
+        if (sync) await this.sync();
         return next; // last LSN in this batch (use for checkpoint)
     }
 
+    // Make everything appended so far durable. Pass the SuperblockManager to also publish the
+    // new tail, so recovery can tell a torn record before it from the end of the log; its
+    // flip syncs the whole file, records included, in one fsync.
+    async sync(sbm?: SuperblockManager) {
+        const lsn = this.lsn;
+        const upTo = this.appended; // appends that land during the flip stay unsynced
+        if (sbm) {
+            // the head belongs to checkpoint(); a sync queued behind one must not put it back
+            await sbm.checkpoint({ jTail: BigInt(this.tail) });
+        } else {
+            await this.file.fsync();
+        }
+        // a sync and a checkpoint can overlap; whichever finishes last may cover less
+        if (upTo > this.synced) this.synced = upTo;
+        if (lsn > this.durableLSN) this.durableLSN = lsn;
+        return lsn;
+    }
+
     async checkpoint(lsn: bigint, sbm: SuperblockManager) {
         const offset = this.lsnToEnd.get(lsn)
         if (offset === undefined) {
             log(LogLevel.err, "Checkpoint failed: LSN not found", { lsn });
             throw new DatabaseError(WAL_RESULT.LSN_NOT_FOUND, `cannot checkpoint: LSN ${lsn} not found`);
         }
-        this.head = offset; // may equal jStart if we ended exactly at J_END
-        for (const k of this.lsnToEnd.keys()) {
-            if (k <= offset) this.lsnToEnd.delete(k);
-        }
-        log(LogLevel.info, "Checkpointed WAL", { lsn });
+        const last = this.lsn;
+        const upTo = this.appended;
         await sbm.checkpoint({
             checkpointLSN: lsn,
-            jHead: BigInt(this.head),
+            jHead: BigInt(offset), // may equal jStart if we ended exactly at J_END
             jTail: BigInt(this.tail),
         });
+        // Appends may reuse the space only once no superblock on disk points before it
+        this.head = offset;
+        for (const k of this.lsnToEnd.keys()) {
+            if (k <= lsn) this.lsnToEnd.delete(k);
+        }
+        log(LogLevel.info, "Checkpointed WAL", { lsn });
+        // the flip fsynced every record up to the tail it published
+        if (upTo > this.synced) this.synced = upTo;
+        if (last > this.durableLSN) this.durableLSN = last;
     }
 
+    // null when the record is cut off or fails its checksum
     decodeAt(view: DataView, offset: number):
-        | { kind: "pad"; next: number }
-        | { kind: "entry"; next: number; lsn: bigint; op: number; key: string; value?: string }
+        | { kind: "pad"; next: number; lsn: bigint }
+        | { kind: "entry"; next: number; lsn: bigint; op: number; more: boolean; key: string; value?: string }
         | null {
         const end = view.byteLength;
         if (offset + this.minHdr > end) return null;
@@ -204,15 +367,18 @@ export class WAL_Manager {
         o += 4;
         const vlen = view.getUint32(o, true);
         o += 4;
+        const crc = view.getUint32(o, true);
+        o += 4;
+
+        const need = o + klen + vlen;
+        if (need > end) return null;
+        if (this.checksum(new Uint8Array(view.buffer, view.byteOffset + offset, need - offset)) !== crc) return null;
 
         if (op === this.OP_PAD) {
             const next = this.alignUp(o); // header only
-            return { kind: "pad", next };
+            return { kind: "pad", next, lsn };
         }
 
-        const need = o + klen + vlen;
-        if (need > end) return null;
-
         const keyBytes = new Uint8Array(view.buffer, view.byteOffset + o, klen);
         o += klen;
         const valBytes = new Uint8Array(view.buffer, view.byteOffset + o, vlen);
@@ -223,33 +389,95 @@ export class WAL_Manager {
             kind: "entry",
             next,
             lsn,
-            op,
+            op: op & ~WAL_OP_MORE,
+            more: (op & WAL_OP_MORE) !== 0,
             key: dec.decode(keyBytes),
             value: vlen > 0 ? dec.decode(valBytes) : undefined,
         };
     }
 
-    async scan(from: number, maxBytes: number): Promise<
-        Array<{ lsn: bigint; op: number; key: string; value?: string, off: number }>
-    > {
-        const buf = await this.file.read(from, maxBytes);
-        const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
-        const out: Array<{ lsn: bigint; op: number; key: string; value?: string, off: number }> =
-            [];
-
-        let off = 0;
-        while (off < view.byteLength) {
-            const r = this.decodeAt(view, off);
-            if (!r) break;
-            if (r.kind === "pad") {
-                // caller should jump to jStart when scanning the real file
+    // Baseline record: no checksum, so only a bad op or a length past the span rejects it
+    private decodeLegacyAt(view: DataView, offset: number): ReturnType<WAL_Manager["decodeAt"]> {
+        const end = view.byteLength;
+        if (offset + this.legacyHdr > end) return null;
+
+        const dec = new TextDecoder();
+        let o = offset;
+        const lsn = view.getBigUint64(o, true);
+        o += 8;
+        const op = view.getUint8(o);
+        o += 1;
+        const klen = view.getUint32(o, true);
+        o += 4;
+        const vlen = view.getUint32(o, true);
+        o += 4;
+
+        if (op === this.OP_PAD) return { kind: "pad", next: this.alignUp(o), lsn };
+        if (!(op in OP_INV) || o + klen + vlen > end) return null;
+
+        const key = dec.decode(new Uint8Array(view.buffer, view.byteOffset + o, klen));
+        o += klen;
+        const value = vlen > 0 ? dec.decode(new Uint8Array(view.buffer, view.byteOffset + o, vlen)) : undefined;
+        o += vlen;
+        return { kind: "entry", next: this.alignUp(o), lsn, op, more: false, key, value };
+    }
+
+    // Walk the ring from `from` up to `to` (the persisted tail), jumping to jStart at a PAD or
+    // at jEnd. Stops at the first record that fails its checksum or breaks LSN continuity;
+    // everything from there up to `to` is reported as truncated. A write batch cut off before
+    // its last record is truncated with it, so a batch is replayed whole or not at all.
+    // Without `to` the walk may go all the way round; `after` is the LSN just before `from`.
+    // `legacy` reads baseline-format records instead.
+    async scan(from: number, to?: number, { legacy = false, after }: { legacy?: boolean; after?: bigint } = {}): Promise<WalScan> {
+        const hdr = legacy ? this.legacyHdr : this.minHdr;
+        const total = to === undefined ? 0 : this.ringDistance(from, to);
+        const spans = to !== undefined && to >= from
+            ? [{ start: from, stop: to }]
+            : [{ start: from, stop: this.jEnd }, { start: this.jStart, stop: to ?? from }];
+        const out: WalRecord[] = [];
+
+        let consumed = 0;
+        let prev: bigint | null = after ?? null;
+        ring: for (const { start, stop } of spans) {
+            if (stop === start) continue;
+            const buf = await this.file.read(start, stop - start);
+            const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+            let off = 0;
+            while (off < view.byteLength) {
+                if (stop === this.jEnd && view.byteLength - off < hdr) {
+                    // too close to jEnd for a PAD; the writer wrapped without one
+                    consumed += view.byteLength - off;
+                    continue ring;
+                }
+                const r = legacy ? this.decodeLegacyAt(view, off) : this.decodeAt(view, off);
+                if (!r) break ring;
+                if (r.kind === "pad") {
+                    // PAD repeats the last LSN instead of consuming one
+                    if (prev !== null && r.lsn !== prev) break ring;
+                    // the rest of this span up to jEnd is dead space; resume at jStart
+                    consumed += view.byteLength - off;
+                    continue ring;
+                }
+                if (prev !== null && r.lsn !== prev + 1n) break ring;
+                prev = r.lsn;
+                const end = start + r.next === this.jEnd ? this.jStart : start + r.next;
+                out.push({ lsn: r.lsn, op: r.op, more: r.more, key: r.key, value: r.value, off: start + off, end });
+                consumed += r.next - off;
                 off = r.next;
-                continue;
             }
-            out.push({ lsn: r.lsn, op: r.op, key: r.key, value: r.value, off });
-            off = r.next;
         }
-        return out;
+
+        let open = out.length;
+        while (open > 0 && out[open - 1]!.more) open--;
+        if (open < out.length) {
+            consumed = this.ringDistance(from, out[open]!.off);
+            out.length = open;
+        }
+
+        let end = from + consumed;
+        if (end >= this.jEnd) end = end - this.jEnd + this.jStart;
+        return { records: out, end, truncated: Math.max(0, total - consumed) };
     }
 
     getHead(): number {
@@ -261,6 +489,12 @@ export class WAL_Manager {
     getLastLSN(): bigint {
         return this.lsn;
     }
+    getDurableLSN(): bigint {
+        return this.durableLSN;
+    }
+    getUnsyncedBytes(): number {
+        return this.appended - this.synced;
+    }
 
     isDirty() {
         if (this.getUsed() > 0) return true
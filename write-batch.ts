@@ -0,0 +1,21 @@
+import type { Operation } from "./event-ring";
+
+// Sets and deletes committed as one unit: they share a WAL commit boundary, so recovery
+// replays all of them or none, and they reach the memtable together (EventRing.dispatchBatch).
+export class WriteBatch {
+    readonly ops: Operation[] = [];
+
+    put(key: string, value: string) {
+        this.ops.push({ op: "set", key, value, ts: 0n, next: null });
+        return this;
+    }
+
+    delete(key: string) {
+        this.ops.push({ op: "del", key, ts: 0n, next: null });
+        return this;
+    }
+
+    get length() {
+        return this.ops.length;
+    }
+}